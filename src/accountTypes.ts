@@ -0,0 +1,49 @@
+import type { HandlerContext } from "generated";
+import { getAccountTypeMode } from "./config.js";
+import { getAccountType } from "./effects.js";
+import type { AccountType } from "./types.js";
+
+// Holder type of new accounts (ACCOUNT_TYPES), and the split of supply and
+// volume between EOAs and contracts kept on TokenSupply and DailySnapshot.
+
+/**
+ * What one event moves between holder types. Volume is attributed to the
+ * sender; accounts without a type are left out of every figure.
+ */
+export type HolderTypeDelta = { eoaSupply: bigint; contractSupply: bigint; eoaVolume: bigint; contractVolume: bigint };
+
+/** Type of an address seen for the first time, or undefined when ACCOUNT_TYPES=none. */
+export async function resolveAccountType(
+  context: HandlerContext,
+  chainId: number,
+  address: string,
+): Promise<AccountType | undefined> {
+  if (getAccountTypeMode() === "none") return undefined;
+  return (await context.effect(getAccountType, { chainId, address })) as AccountType;
+}
+
+// A delegated EOA is still a key-held wallet; a Safe is a contract holding funds
+function isContract(type: AccountType): boolean {
+  return type === "CONTRACT" || type === "SAFE";
+}
+
+export function emptyHolderTypeDelta(): HolderTypeDelta {
+  return { eoaSupply: 0n, contractSupply: 0n, eoaVolume: 0n, contractVolume: 0n };
+}
+
+/** Add an account's balance change, and the amount it sent, to `delta`. */
+export function addHolderTypeChange(
+  delta: HolderTypeDelta,
+  type: AccountType | undefined,
+  balanceChange: bigint,
+  sent: bigint,
+): void {
+  if (type === undefined) return;
+  if (isContract(type)) {
+    delta.contractSupply += balanceChange;
+    delta.contractVolume += sent;
+  } else {
+    delta.eoaSupply += balanceChange;
+    delta.eoaVolume += sent;
+  }
+}
@@ -0,0 +1,188 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { pathToFileURL } from "node:url";
+
+// Alert delivery worker, run next to the indexer with `pnpm alerts`. It reads
+// Alert rows from the indexer's GraphQL API and POSTs each one as JSON to every
+// ALERT_WEBHOOK_URLS endpoint. Only Node built-ins are used, so it runs with
+// plain `node` and no codegen.
+//
+// Delivery is at-least-once per webhook:
+// - alerts younger than ALERT_DELAY_SECONDS aren't read, so rows a reorg drops never go out
+// - what was delivered is kept in ALERT_STATE_FILE, keyed by the stable Alert id,
+//   so a re-index or a worker restart doesn't send the whole backlog again
+// - an alert can still arrive twice: a receiver that times out after accepting it
+//   is retried, and a crash between a POST and the state write resends that one.
+//   Receivers must dedupe on the Alert id, sent as the Idempotency-Key header
+
+export type AlertWorkerConfig = {
+  graphqlUrl: string;
+  graphqlSecret: string | undefined;  // Hasura admin secret, if the API needs one
+  webhookUrls: string[];
+  stateFile: string;
+  delaySeconds: number;
+  lookbackSeconds: number;   // older alerts are neither read nor remembered
+  maxAttempts: number;
+  retryDelayMs: number;      // doubled after each failed attempt
+  pollIntervalMs: number;
+  batchSize: number;
+};
+
+/** Result of one pass. `complete` is false when a webhook kept failing. */
+export type DeliveryResult = { sent: number; complete: boolean };
+
+type AlertRow = { id: string; blockTimestamp: number } & Record<string, unknown>;
+
+// Delivered `${blockTimestamp}|${alertId}|${webhookUrl}` keys
+type WorkerState = { delivered: string[] };
+
+const ALERT_FIELDS = [
+  "id",
+  "chainId",
+  "token",
+  "kind",
+  "blockNumber",
+  "blockTimestamp",
+  "txHash",
+  "from",
+  "to",
+  "value",
+  "valueNormalized",
+  "holderCount",
+  "holderCountChange",
+];
+
+const PENDING_ALERTS_QUERY = `query PendingAlerts($since: Int!, $until: Int!, $limit: Int!, $offset: Int!) {
+  Alert(
+    where: { blockTimestamp: { _gte: $since, _lte: $until } }
+    order_by: [{ blockTimestamp: asc }, { id: asc }]
+    limit: $limit
+    offset: $offset
+  ) { ${ALERT_FIELDS.join(" ")} }
+}`;
+
+function positiveInteger(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`Invalid ${name} "${raw}"`);
+  return value;
+}
+
+export function loadAlertWorkerConfig(env: NodeJS.ProcessEnv = process.env): AlertWorkerConfig {
+  const webhookUrls = (env.ALERT_WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url !== "");
+  if (webhookUrls.length === 0) throw new Error("ALERT_WEBHOOK_URLS is not set");
+
+  return {
+    graphqlUrl: env.ALERT_GRAPHQL_URL ?? "http://localhost:8080/v1/graphql",
+    graphqlSecret: env.ALERT_GRAPHQL_SECRET,
+    webhookUrls,
+    stateFile: env.ALERT_STATE_FILE ?? ".alert-worker.json",
+    delaySeconds: positiveInteger(env, "ALERT_DELAY_SECONDS", 300),
+    lookbackSeconds: positiveInteger(env, "ALERT_LOOKBACK_SECONDS", 86400),
+    maxAttempts: positiveInteger(env, "ALERT_MAX_ATTEMPTS", 5),
+    retryDelayMs: 1000,
+    pollIntervalMs: positiveInteger(env, "ALERT_POLL_INTERVAL_MS", 15000),
+    batchSize: 500,
+  };
+}
+
+function readState(stateFile: string): WorkerState {
+  if (!existsSync(stateFile)) return { delivered: [] };
+  return JSON.parse(readFileSync(stateFile, "utf8")) as WorkerState;
+}
+
+function writeState(stateFile: string, delivered: Set<string>): void {
+  writeFileSync(stateFile, JSON.stringify({ delivered: [...delivered] } satisfies WorkerState));
+}
+
+async function fetchAlerts(config: AlertWorkerConfig, since: number, until: number, offset: number) {
+  const response = await fetch(config.graphqlUrl, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(config.graphqlSecret ? { "x-hasura-admin-secret": config.graphqlSecret } : {}),
+    },
+    body: JSON.stringify({
+      query: PENDING_ALERTS_QUERY,
+      variables: { since, until, limit: config.batchSize, offset },
+    }),
+  });
+  if (!response.ok) throw new Error(`GraphQL request failed with HTTP ${response.status}`);
+  const { data, errors } = (await response.json()) as { data?: { Alert: AlertRow[] }; errors?: { message: string }[] };
+  if (errors?.length || !data) throw new Error(`GraphQL error: ${errors?.[0]?.message ?? "no data"}`);
+  return data.Alert;
+}
+
+/** POST with exponential backoff. A 409 means the receiver already has it. */
+async function post(config: AlertWorkerConfig, url: string, alert: AlertRow): Promise<boolean> {
+  for (let attempt = 0; attempt < config.maxAttempts; attempt++) {
+    if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, config.retryDelayMs * 2 ** (attempt - 1)));
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", "idempotency-key": alert.id },
+        body: JSON.stringify(alert),
+      });
+      if (response.ok || response.status === 409) return true;
+    } catch {
+      // Connection errors are retried like HTTP errors
+    }
+  }
+  return false;
+}
+
+/**
+ * Deliver every settled alert of the lookback window that a webhook hasn't
+ * received yet. Stops at the first webhook that exhausts its attempts, so
+ * alerts go out in order; the next pass picks up from there.
+ */
+export async function deliverPending(config: AlertWorkerConfig, now = Date.now()): Promise<DeliveryResult> {
+  const until = Math.floor(now / 1000) - config.delaySeconds;
+  const since = until - config.lookbackSeconds;
+  // Keys older than the window can't come back, so they're dropped
+  const delivered = new Set(
+    readState(config.stateFile).delivered.filter((key) => Number(key.split("|")[0]) >= since),
+  );
+
+  let sent = 0;
+  for (let offset = 0; ; offset += config.batchSize) {
+    const alerts = await fetchAlerts(config, since, until, offset);
+    for (const alert of alerts) {
+      for (const url of config.webhookUrls) {
+        const key = `${alert.blockTimestamp}|${alert.id}|${url}`;
+        if (delivered.has(key)) continue;
+        if (!(await post(config, url, alert))) {
+          writeState(config.stateFile, delivered);
+          return { sent, complete: false };
+        }
+        delivered.add(key);
+        sent++;
+        // Saved after every delivery, so a crash resends at most the alert in flight
+        writeState(config.stateFile, delivered);
+      }
+    }
+    if (alerts.length < config.batchSize) break;
+  }
+  writeState(config.stateFile, delivered);
+  return { sent, complete: true };
+}
+
+async function main(): Promise<void> {
+  const config = loadAlertWorkerConfig();
+  const once = process.argv.includes("--once");
+  for (;;) {
+    try {
+      const { sent, complete } = await deliverPending(config);
+      if (sent > 0 || !complete) console.log(`alerts: ${sent} delivered${complete ? "" : ", retrying next poll"}`);
+    } catch (error) {
+      console.error("alerts: delivery pass failed", error);
+    }
+    if (once) return;
+    await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) await main();
@@ -0,0 +1,72 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { getAlertHolderSwing, getAlertMintBurnMinTokens, getAlertTransferMinTokens } from "./config.js";
+
+// Alert outbox rows for large movements and holder count swings. Delivery is
+// done outside the indexer by src/alertWorker.ts.
+
+/** A movement and the day's holder counts after it. */
+export type AlertActivity = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  blockNumber: number;
+  ts: number;
+  logIndex: number;
+  txHash: string;
+  from: string;
+  to: string;
+  value: bigint;
+  isMint: boolean;
+  isBurn: boolean;
+  dayId: number;
+  openingHolderCount: number;
+  holderCount: number;
+};
+
+type AlertKind = "LARGE_TRANSFER" | "LARGE_MINT" | "LARGE_BURN" | "HOLDER_COUNT_SWING";
+
+export async function recordAlerts(context: HandlerContext, activity: AlertActivity): Promise<void> {
+  const { chainId, token, decimals, blockNumber, ts, logIndex, txHash, from, to, value } = activity;
+
+  const kind: AlertKind = activity.isMint ? "LARGE_MINT" : activity.isBurn ? "LARGE_BURN" : "LARGE_TRANSFER";
+  const minTokens = kind === "LARGE_TRANSFER" ? getAlertTransferMinTokens() : getAlertMintBurnMinTokens();
+  if (minTokens !== undefined && value >= minTokens * 10n ** BigInt(decimals)) {
+    context.Alert.set({
+      id: `${chainId}-${token}-${blockNumber}-${logIndex}-${kind}`,
+      chainId,
+      token,
+      kind,
+      blockNumber,
+      blockTimestamp: ts,
+      txHash,
+      from,
+      to,
+      value,
+      valueNormalized: new BigDecimal(value.toString()).shiftedBy(-decimals),
+      holderCount: undefined,
+      holderCountChange: undefined,
+    });
+  }
+
+  const swing = getAlertHolderSwing();
+  const holderCountChange = activity.holderCount - activity.openingHolderCount;
+  if (swing === undefined || Math.abs(holderCountChange) < swing) return;
+  // First crossing of the day only; later movements would rewrite the payload
+  const swingId = `${chainId}-${token}-${activity.dayId}-HOLDER_COUNT_SWING`;
+  if (await context.Alert.get(swingId)) return;
+  context.Alert.set({
+    id: swingId,
+    chainId,
+    token,
+    kind: "HOLDER_COUNT_SWING",
+    blockNumber,
+    blockTimestamp: ts,
+    txHash,
+    from: undefined,
+    to: undefined,
+    value: undefined,
+    valueNormalized: undefined,
+    holderCount: activity.holderCount,
+    holderCountChange,
+  });
+}
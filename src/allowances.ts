@@ -0,0 +1,157 @@
+import type { Allowance, HandlerContext } from "generated";
+import { getAddress } from "viem";
+
+// Allowance and SpenderAllowanceTotals, kept in step by Approval events and by
+// transfers a spender initiates.
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+type ApprovalMethod = "APPROVE" | "PERMIT" | "RELAYED";
+
+// permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
+const PERMIT_SELECTOR = "0xd505accf";
+
+type AllowanceState = { amount: bigint; isUnlimited: boolean };
+
+const NO_ALLOWANCE: AllowanceState = { amount: 0n, isUnlimited: false };
+
+/** Transaction fields may differ in case from the checksummed event addresses. */
+function sameAddress(a: string | undefined, b: string): boolean {
+  return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+function getAllowanceId(chainId: number, token: string, owner: string, spender: string): string {
+  return `${chainId}-${token}-${owner}-${spender}`;
+}
+
+/** Move a spender's totals from one allowance value to another. */
+async function updateSpenderTotals(
+  context: HandlerContext,
+  allowance: Allowance,
+  previous: AllowanceState,
+  isPermit: boolean,
+): Promise<void> {
+  const { chainId, token, spender } = allowance;
+  const id = `${chainId}-${token}-${spender}`;
+  const totals = (await context.SpenderAllowanceTotals.get(id)) ?? {
+    id,
+    chainId,
+    token,
+    spender,
+    approverCount: 0,
+    totalAllowance: 0n,
+    unlimitedCount: 0,
+    permitCount: 0,
+  };
+  const limited = ({ amount, isUnlimited }: AllowanceState) => (isUnlimited ? 0n : amount);
+  const approvers = ({ amount }: AllowanceState) => (amount > 0n ? 1 : 0);
+  const unlimited = ({ isUnlimited }: AllowanceState) => (isUnlimited ? 1 : 0);
+
+  context.SpenderAllowanceTotals.set({
+    ...totals,
+    approverCount: totals.approverCount + approvers(allowance) - approvers(previous),
+    totalAllowance: totals.totalAllowance + limited(allowance) - limited(previous),
+    unlimitedCount: totals.unlimitedCount + unlimited(allowance) - unlimited(previous),
+    permitCount: totals.permitCount + (isPermit ? 1 : 0),
+  });
+}
+
+/** An Approval log plus the transaction fields used to tell permits apart. */
+export type ApprovalActivity = {
+  chainId: number;
+  token: string;
+  owner: string;
+  spender: string;
+  value: bigint;
+  blockNumber: number;
+  ts: number;
+  txHash: string;
+  logIndex: number;
+  txFrom: string | undefined;
+  txTo: string | undefined;
+  txInput: string | undefined;
+};
+
+function getApprovalMethod({ token, owner, txFrom, txTo, txInput }: ApprovalActivity): ApprovalMethod {
+  // Only the owner can call approve()
+  if (txFrom === undefined || sameAddress(txFrom, owner)) return "APPROVE";
+  if (sameAddress(txTo, token) && txInput?.toLowerCase().startsWith(PERMIT_SELECTOR)) {
+    return "PERMIT";
+  }
+  return "RELAYED";
+}
+
+export async function recordApproval(context: HandlerContext, approval: ApprovalActivity): Promise<void> {
+  const { chainId, token, owner, spender, value, blockNumber, ts, txHash, logIndex } = approval;
+  const id = getAllowanceId(chainId, token, owner, spender);
+  const previous = await context.Allowance.get(id);
+  const method = getApprovalMethod(approval);
+
+  const allowance: Allowance = {
+    id,
+    chainId,
+    token,
+    owner,
+    spender,
+    amount: value,
+    isUnlimited: value === MAX_UINT256,
+    method,
+    lastUpdatedBlock: blockNumber,
+    lastUpdatedTimestamp: ts,
+    lastTxHash: txHash,
+    lastLogIndex: logIndex,
+  };
+  context.Allowance.set(allowance);
+  await updateSpenderTotals(context, allowance, previous ?? NO_ALLOWANCE, method === "PERMIT");
+}
+
+/** A transfer plus the transaction fields used to find the spender. */
+export type SpendActivity = {
+  chainId: number;
+  token: string;
+  owner: string;             // Transfer `from`
+  value: bigint;
+  blockNumber: number;
+  ts: number;
+  txHash: string;
+  logIndex: number;
+  txFrom: string | undefined;
+  txTo: string | undefined;
+};
+
+/**
+ * Reduce the allowance used by a transfer when the spender is clear: the
+ * transaction sender, or the contract it called, holding an allowance from
+ * `owner`. Transfers sent by the owner directly to the token are never spends.
+ * Tokens that emit Approval from transferFrom (OpenZeppelin before v5) log it
+ * just before the Transfer; that Approval already holds the new value.
+ */
+export async function spendAllowance(context: HandlerContext, transfer: SpendActivity): Promise<void> {
+  const { chainId, token, owner, value, blockNumber, ts, txHash, logIndex, txFrom, txTo } = transfer;
+  const candidates: string[] = [];
+  if (txFrom && !sameAddress(txFrom, owner)) candidates.push(txFrom);
+  if (txTo && !sameAddress(txTo, token) && !sameAddress(txTo, owner) && !sameAddress(txFrom, txTo)) {
+    candidates.push(txTo);
+  }
+
+  for (const candidate of candidates) {
+    // Allowance ids hold the checksummed spender from the Approval event
+    const allowance = await context.Allowance.get(getAllowanceId(chainId, token, owner, getAddress(candidate)));
+    if (!allowance || allowance.amount === 0n) continue;
+    if (allowance.lastTxHash === txHash && allowance.lastLogIndex === logIndex - 1) return;
+    // USDT and DAI never decrease a max approval. USDC does, but what's left stays effectively unlimited.
+    if (allowance.isUnlimited) return;
+
+    const updated: Allowance = {
+      ...allowance,
+      amount: allowance.amount > value ? allowance.amount - value : 0n,
+      lastUpdatedBlock: blockNumber,
+      lastUpdatedTimestamp: ts,
+      lastTxHash: txHash,
+      lastLogIndex: logIndex,
+    };
+    context.Allowance.set(updated);
+    await updateSpenderTotals(context, updated, allowance, false);
+    return;
+  }
+}
@@ -0,0 +1,271 @@
+import {
+  BigDecimal,
+  type DailyMetricHistory,
+  type DailyRollingStats,
+  type DailySnapshot,
+  type HandlerContext,
+} from "generated";
+import { getAnomalyZScore } from "./config.js";
+
+// Rolling 7 / 30 day baselines of the DailySnapshot series, and Anomaly rows for
+// days that stray more than ANOMALY_Z_SCORE deviations from them. Volume,
+// transfers and active addresses only grow during a day, so a spike is flagged
+// as soon as it happens but a quiet day only once it has closed.
+
+/** The movement being scored, and the token's running DailySnapshot for today. */
+export type AnomalyActivity = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  blockNumber: number;
+  ts: number;
+  daily: DailySnapshot;      // today's row, after the movement
+};
+
+type AnomalyMetric = "VOLUME" | "TRANSFER_COUNT" | "UNIQUE_ADDRESSES" | "SUPPLY_CHANGE";
+
+type MetricValues = Record<AnomalyMetric, BigDecimal>;
+
+type MetricField = "dailyVolume" | "dailyTransferCount" | "uniqueActiveAddresses" | "supplyChange";
+
+type Baseline = { mean: BigDecimal; stdDev: BigDecimal };
+
+type WindowBaselines = { window: number; days: number; byMetric: Record<AnomalyMetric, Baseline> };
+
+/** Which side of the baseline a metric is scored on. */
+type ScoredSide = "HIGH" | "LOW" | "BOTH";
+
+/** The token and movement an Anomaly is recorded against, and the threshold in force. */
+type ScoreContext = { chainId: number; token: string; blockNumber: number; ts: number; threshold: number };
+
+const ANOMALY_WINDOWS = [7, 30];
+const HISTORY_DAYS = Math.max(...ANOMALY_WINDOWS);
+
+const METRICS: AnomalyMetric[] = ["VOLUME", "TRANSFER_COUNT", "UNIQUE_ADDRESSES", "SUPPLY_CHANGE"];
+
+// Supply change moves both ways during a day, so it's scored on both sides as it goes
+const OPEN_DAY_SIDES: Record<AnomalyMetric, ScoredSide> = {
+  VOLUME: "HIGH",
+  TRANSFER_COUNT: "HIGH",
+  UNIQUE_ADDRESSES: "HIGH",
+  SUPPLY_CHANGE: "BOTH",
+};
+const CLOSED_DAY_SIDES: Partial<Record<AnomalyMetric, ScoredSide>> = {
+  VOLUME: "LOW",
+  TRANSFER_COUNT: "LOW",
+  UNIQUE_ADDRESSES: "LOW",
+};
+
+function toDecimal(amount: bigint | number, decimals = 0): BigDecimal {
+  return new BigDecimal(amount.toString()).shiftedBy(-decimals);
+}
+
+function dailyValues(daily: Pick<DailySnapshot, MetricField>, decimals: number): MetricValues {
+  return {
+    VOLUME: toDecimal(daily.dailyVolume, decimals),
+    TRANSFER_COUNT: toDecimal(daily.dailyTransferCount),
+    UNIQUE_ADDRESSES: toDecimal(daily.uniqueActiveAddresses),
+    SUPPLY_CHANGE: toDecimal(daily.supplyChange, decimals),
+  };
+}
+
+function historyValues(history: DailyMetricHistory, decimals: number): Record<AnomalyMetric, BigDecimal[]> {
+  return {
+    VOLUME: history.volumes.map((volume) => toDecimal(volume, decimals)),
+    TRANSFER_COUNT: history.transferCounts.map((count) => toDecimal(count)),
+    UNIQUE_ADDRESSES: history.uniqueAddresses.map((count) => toDecimal(count)),
+    SUPPLY_CHANGE: history.supplyChanges.map((change) => toDecimal(change, decimals)),
+  };
+}
+
+/** Mean and population standard deviation; zero for an empty sample. */
+function baseline(values: BigDecimal[]): Baseline {
+  if (values.length === 0) return { mean: new BigDecimal(0), stdDev: new BigDecimal(0) };
+  const count = new BigDecimal(values.length);
+  const mean = values.reduce((sum, value) => sum.plus(value), new BigDecimal(0)).dividedBy(count);
+  const variance = values
+    .reduce((sum, value) => sum.plus(value.minus(mean).pow(2)), new BigDecimal(0))
+    .dividedBy(count);
+  return { mean, stdDev: variance.sqrt() };
+}
+
+/** Baselines of each window over the last days of `history`, with how many days they cover. */
+function windowBaselines(history: DailyMetricHistory, decimals: number): WindowBaselines[] {
+  const samples = historyValues(history, decimals);
+  return ANOMALY_WINDOWS.map((window) => {
+    const byMetric = Object.fromEntries(
+      METRICS.map((metric) => [metric, baseline(samples[metric].slice(-window))]),
+    ) as Record<AnomalyMetric, Baseline>;
+    return { window, days: Math.min(window, history.volumes.length), byMetric };
+  });
+}
+
+function rollingStats(chainId: number, token: string, dayId: number, baselines: WindowBaselines): DailyRollingStats {
+  const { window, days, byMetric } = baselines;
+  return {
+    id: `${chainId}-${token}-${dayId}-${window}`,
+    chainId,
+    token,
+    dayId,
+    window,
+    days,
+    volumeMean: byMetric.VOLUME.mean,
+    volumeStdDev: byMetric.VOLUME.stdDev,
+    transferCountMean: byMetric.TRANSFER_COUNT.mean,
+    transferCountStdDev: byMetric.TRANSFER_COUNT.stdDev,
+    uniqueAddressesMean: byMetric.UNIQUE_ADDRESSES.mean,
+    uniqueAddressesStdDev: byMetric.UNIQUE_ADDRESSES.stdDev,
+    supplyChangeMean: byMetric.SUPPLY_CHANGE.mean,
+    supplyChangeStdDev: byMetric.SUPPLY_CHANGE.stdDev,
+  };
+}
+
+/**
+ * Today's baselines as written to DailyRollingStats when the day started, so
+ * later movements of the day don't recompute them. Recomputed from `history`
+ * if a row is missing.
+ */
+async function storedBaselines(
+  context: HandlerContext,
+  history: DailyMetricHistory,
+  activity: AnomalyActivity,
+): Promise<WindowBaselines[]> {
+  const { chainId, token, decimals, daily } = activity;
+  const baselines: WindowBaselines[] = [];
+  for (const window of ANOMALY_WINDOWS) {
+    const stats = await context.DailyRollingStats.get(`${chainId}-${token}-${daily.dayId}-${window}`);
+    if (!stats) return windowBaselines(history, decimals);
+    baselines.push({
+      window,
+      days: stats.days,
+      byMetric: {
+        VOLUME: { mean: stats.volumeMean, stdDev: stats.volumeStdDev },
+        TRANSFER_COUNT: { mean: stats.transferCountMean, stdDev: stats.transferCountStdDev },
+        UNIQUE_ADDRESSES: { mean: stats.uniqueAddressesMean, stdDev: stats.uniqueAddressesStdDev },
+        SUPPLY_CHANGE: { mean: stats.supplyChangeMean, stdDev: stats.supplyChangeStdDev },
+      },
+    });
+  }
+  return baselines;
+}
+
+/**
+ * Score a day's value against each full window on the given side, keeping the
+ * day's strongest Anomaly per metric and window.
+ */
+async function scoreDay(
+  context: HandlerContext,
+  scoring: ScoreContext,
+  dayId: number,
+  values: MetricValues,
+  baselines: WindowBaselines[],
+  sides: Partial<Record<AnomalyMetric, ScoredSide>>,
+): Promise<void> {
+  const { chainId, token, blockNumber, ts, threshold } = scoring;
+  for (const { window, days, byMetric } of baselines) {
+    // A young token's partial window would flag ordinary growth
+    if (days < window) continue;
+    for (const metric of METRICS) {
+      const side = sides[metric];
+      const { mean, stdDev } = byMetric[metric];
+      if (!side || stdDev.isZero()) continue;
+      const zScore = values[metric].minus(mean).dividedBy(stdDev);
+      if (zScore.abs().lt(threshold)) continue;
+      if ((side === "HIGH" && zScore.isNegative()) || (side === "LOW" && zScore.isPositive())) continue;
+
+      const anomalyId = `${chainId}-${token}-${dayId}-${metric}-${window}`;
+      const previous = await context.Anomaly.get(anomalyId);
+      if (previous && previous.zScore.abs().gte(zScore.abs())) continue;
+      context.Anomaly.set({
+        id: anomalyId,
+        chainId,
+        token,
+        dayId,
+        metric,
+        window,
+        value: values[metric],
+        mean,
+        stdDev,
+        zScore,
+        threshold: new BigDecimal(threshold),
+        detectedBlock: previous?.detectedBlock ?? blockNumber,
+        detectedTimestamp: previous?.detectedTimestamp ?? ts,
+        lastUpdatedTimestamp: ts,
+      });
+    }
+  }
+}
+
+/**
+ * Move the days closed since `history.currentDayId` into the history, reading
+ * their final DailySnapshot rows, and score each one's running totals on the
+ * low side against the days before it. Days without a row had no activity.
+ */
+async function closeDays(
+  context: HandlerContext,
+  history: DailyMetricHistory,
+  activity: AnomalyActivity,
+  threshold: number | undefined,
+): Promise<DailyMetricHistory> {
+  const { chainId, token, decimals, blockNumber, ts, daily } = activity;
+  let closedHistory = history;
+
+  // Anything older than the longest window would be dropped right away
+  for (let day = Math.max(history.currentDayId, daily.dayId - HISTORY_DAYS); day < daily.dayId; day++) {
+    const closed = (await context.DailySnapshot.get(`${chainId}-${token}-${day}`)) ?? emptyDay();
+    if (threshold !== undefined) {
+      const scoring = { chainId, token, blockNumber, ts, threshold };
+      const baselines = windowBaselines(closedHistory, decimals);
+      await scoreDay(context, scoring, day, dailyValues(closed, decimals), baselines, CLOSED_DAY_SIDES);
+    }
+    closedHistory = {
+      ...closedHistory,
+      volumes: [...closedHistory.volumes, closed.dailyVolume].slice(-HISTORY_DAYS),
+      transferCounts: [...closedHistory.transferCounts, closed.dailyTransferCount].slice(-HISTORY_DAYS),
+      uniqueAddresses: [...closedHistory.uniqueAddresses, closed.uniqueActiveAddresses].slice(-HISTORY_DAYS),
+      supplyChanges: [...closedHistory.supplyChanges, closed.supplyChange].slice(-HISTORY_DAYS),
+    };
+  }
+
+  return { ...closedHistory, currentDayId: daily.dayId };
+}
+
+/** The metrics of a day without a DailySnapshot row. */
+function emptyDay(): Pick<DailySnapshot, MetricField> {
+  return { dailyVolume: 0n, dailyTransferCount: 0, uniqueActiveAddresses: 0, supplyChange: 0n };
+}
+
+/**
+ * Roll the token's history forward when a new day starts (scoring the closed
+ * days and writing the new day's DailyRollingStats), then score today's
+ * running values against each full window and record the ones past the
+ * token's z-score threshold as Anomaly.
+ */
+export async function updateAnomalies(context: HandlerContext, activity: AnomalyActivity): Promise<void> {
+  const { chainId, token, decimals, blockNumber, ts, daily } = activity;
+  const id = `${chainId}-${token}`;
+  const existing = await context.DailyMetricHistory.get(id);
+  const threshold = getAnomalyZScore(chainId, token);
+
+  const history: DailyMetricHistory = !existing
+    ? { id, currentDayId: daily.dayId, volumes: [], transferCounts: [], uniqueAddresses: [], supplyChanges: [] }
+    : existing.currentDayId < daily.dayId
+      ? await closeDays(context, existing, activity, threshold)
+      : existing;
+
+  // The baselines only change when the history rolls over to a new day
+  let baselines: WindowBaselines[] | undefined;
+  if (history !== existing) {
+    context.DailyMetricHistory.set(history);
+    baselines = windowBaselines(history, decimals);
+    for (const windowBaseline of baselines) {
+      context.DailyRollingStats.set(rollingStats(chainId, token, daily.dayId, windowBaseline));
+    }
+  }
+
+  if (threshold === undefined) return;
+
+  baselines ??= await storedBaselines(context, history, activity);
+  const scoring = { chainId, token, blockNumber, ts, threshold };
+  await scoreDay(context, scoring, daily.dayId, dailyValues(daily, decimals), baselines, OPEN_DAY_SIDES);
+}
@@ -0,0 +1,162 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { DAY } from "./periods.js";
+
+// Cross-chain rollups per canonical asset (Token.asset). Deployments of the same
+// asset can have different decimals (USDT is 18 on BSC), so amounts are summed
+// in whole tokens.
+
+/** A movement on one of the asset's deployments, amounts in whole tokens. */
+export type AssetActivity = {
+  asset: string;
+  chainId: number;
+  ts: number;
+  value: BigDecimal;
+  minted: BigDecimal;
+  burned: BigDecimal;
+  holderDelta: number;
+};
+
+/**
+ * Supply and holders a deployment gains outside a movement: its opening state
+ * (BOOTSTRAP) when its TokenSupply is created, or a bootstrapped holder first
+ * seen through a blacklist event.
+ */
+export type AssetHoldings = {
+  asset: string;
+  chainId: number;
+  ts: number;
+  totalSupply: BigDecimal;
+  holderCount: number;
+};
+
+const ZERO = new BigDecimal(0);
+
+function emptyChainSupply(asset: string, chainId: number, ts: number) {
+  return {
+    id: `${asset}-${chainId}`,
+    asset,
+    chainId,
+    totalSupply: ZERO,
+    totalMinted: ZERO,
+    totalBurned: ZERO,
+    allTimeVolume: ZERO,
+    holderCount: 0,
+    transferCount: 0,
+    lastUpdatedTimestamp: ts,
+  };
+}
+
+function emptyAsset(asset: string, ts: number) {
+  return {
+    id: asset,
+    totalSupply: ZERO,
+    totalMinted: ZERO,
+    totalBurned: ZERO,
+    allTimeVolume: ZERO,
+    holderCount: 0,
+    transferCount: 0,
+    lastUpdatedTimestamp: ts,
+  };
+}
+
+function emptyAssetDay(asset: string, dayId: number) {
+  return {
+    id: `${asset}-${dayId}`,
+    asset,
+    dayId,
+    dayStartTimestamp: dayId * DAY,
+    dailyVolume: ZERO,
+    dailyTransferCount: 0,
+    dailyMintVolume: ZERO,
+    dailyBurnVolume: ZERO,
+    endOfDaySupply: ZERO,
+    holderCount: 0,
+  };
+}
+
+/**
+ * Add supply and holders to Asset, AssetChainSupply and today's
+ * AssetDailySnapshot without counting a transfer, so the rollups keep matching
+ * TokenSupply. Opening supply is not counted as minted.
+ */
+export async function addAssetHoldings(context: HandlerContext, holdings: AssetHoldings): Promise<void> {
+  const { asset, chainId, ts, totalSupply, holderCount } = holdings;
+  if (totalSupply.isZero() && holderCount === 0) return;
+
+  const totals = (await context.Asset.get(asset)) ?? emptyAsset(asset, ts);
+  const updatedAsset = {
+    ...totals,
+    totalSupply: totals.totalSupply.plus(totalSupply),
+    holderCount: totals.holderCount + holderCount,
+    lastUpdatedTimestamp: ts,
+  };
+  context.Asset.set(updatedAsset);
+
+  const chainSupplyId = `${asset}-${chainId}`;
+  const chainSupply = (await context.AssetChainSupply.get(chainSupplyId)) ?? emptyChainSupply(asset, chainId, ts);
+  context.AssetChainSupply.set({
+    ...chainSupply,
+    totalSupply: chainSupply.totalSupply.plus(totalSupply),
+    holderCount: chainSupply.holderCount + holderCount,
+    lastUpdatedTimestamp: ts,
+  });
+
+  const dayId = Math.floor(ts / DAY);
+  const daily = (await context.AssetDailySnapshot.get(`${asset}-${dayId}`)) ?? emptyAssetDay(asset, dayId);
+  context.AssetDailySnapshot.set({
+    ...daily,
+    endOfDaySupply: updatedAsset.totalSupply,
+    holderCount: updatedAsset.holderCount,
+  });
+}
+
+/**
+ * Roll a movement into Asset, AssetChainSupply and AssetDailySnapshot.
+ * With unordered multichain processing, endOfDaySupply is the asset supply as
+ * of the last event processed for that day, which may lag other chains.
+ */
+export async function updateAssetRollups(context: HandlerContext, activity: AssetActivity): Promise<void> {
+  const { asset, chainId, ts, value, minted, burned, holderDelta } = activity;
+  const supplyDelta = minted.minus(burned);
+
+  // 1. Asset (all chains)
+  const totals = (await context.Asset.get(asset)) ?? emptyAsset(asset, ts);
+  const updatedAsset = {
+    ...totals,
+    totalSupply: totals.totalSupply.plus(supplyDelta),
+    totalMinted: totals.totalMinted.plus(minted),
+    totalBurned: totals.totalBurned.plus(burned),
+    allTimeVolume: totals.allTimeVolume.plus(value),
+    holderCount: totals.holderCount + holderDelta,
+    transferCount: totals.transferCount + 1,
+    lastUpdatedTimestamp: ts,
+  };
+  context.Asset.set(updatedAsset);
+
+  // 2. Per-chain breakdown
+  const chainSupplyId = `${asset}-${chainId}`;
+  const chainSupply = (await context.AssetChainSupply.get(chainSupplyId)) ?? emptyChainSupply(asset, chainId, ts);
+  context.AssetChainSupply.set({
+    ...chainSupply,
+    totalSupply: chainSupply.totalSupply.plus(supplyDelta),
+    totalMinted: chainSupply.totalMinted.plus(minted),
+    totalBurned: chainSupply.totalBurned.plus(burned),
+    allTimeVolume: chainSupply.allTimeVolume.plus(value),
+    holderCount: chainSupply.holderCount + holderDelta,
+    transferCount: chainSupply.transferCount + 1,
+    lastUpdatedTimestamp: ts,
+  });
+
+  // 3. Daily snapshot (all chains)
+  const dayId = Math.floor(ts / DAY);
+  const daily = (await context.AssetDailySnapshot.get(`${asset}-${dayId}`)) ?? emptyAssetDay(asset, dayId);
+  context.AssetDailySnapshot.set({
+    ...daily,
+    dailyVolume: daily.dailyVolume.plus(value),
+    dailyTransferCount: daily.dailyTransferCount + 1,
+    dailyMintVolume: daily.dailyMintVolume.plus(minted),
+    dailyBurnVolume: daily.dailyBurnVolume.plus(burned),
+    endOfDaySupply: updatedAsset.totalSupply,
+    holderCount: updatedAsset.holderCount,
+  });
+}
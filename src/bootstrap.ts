@@ -0,0 +1,137 @@
+import type { HandlerContext } from "generated";
+import { getBootstrapMode, getTokenSnapshot } from "./config.js";
+import { getOnChainBalance, getOnChainTotalSupply } from "./effects.js";
+
+// Opening balances and supply for a start_block after the token already had
+// holders (BOOTSTRAP). Read once, when an account or the token is first seen.
+
+/** Balance an account had before its first indexed movement. */
+export type OpeningBalance = {
+  balance: bigint;
+  isCounted: boolean;        // already in the opening TokenSupply.holderCount
+};
+
+/**
+ * TokenSupply state before the token's first indexed movement. Over RPC only
+ * the supply is known: holders are counted as they appear, so the count is partial.
+ */
+export type OpeningSupply = { totalSupply: bigint; holderCount: number; holderCountIsPartial: boolean };
+
+/**
+ * Opening balance of an account first seen at `blockNumber`. With no indexed
+ * activity before that, its balance at the end of the previous block is the
+ * one it had at start_block.
+ */
+export async function getOpeningBalance(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  account: string,
+  blockNumber: number,
+): Promise<OpeningBalance> {
+  const bootstrap = getBootstrapMode();
+  switch (bootstrap.mode) {
+    case "none":
+      return { balance: 0n, isCounted: false };
+    case "file":
+      return {
+        balance: getTokenSnapshot(chainId, token)?.balances.get(account.toLowerCase()) ?? 0n,
+        isCounted: true,
+      };
+    case "rpc": {
+      const balance = await context.effect(getOnChainBalance, {
+        chainId,
+        address: token,
+        account,
+        blockNumber: blockNumber - 1,
+      });
+      // totalSupply() doesn't say how many holders there are, so they're counted as they appear
+      return { balance: BigInt(balance), isCounted: false };
+    }
+  }
+}
+
+export async function getOpeningSupply(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  blockNumber: number,
+): Promise<OpeningSupply> {
+  const bootstrap = getBootstrapMode();
+  switch (bootstrap.mode) {
+    case "none":
+      return { totalSupply: 0n, holderCount: 0, holderCountIsPartial: false };
+    case "file": {
+      const snapshot = getTokenSnapshot(chainId, token);
+      return {
+        totalSupply: snapshot?.totalSupply ?? 0n,
+        holderCount: snapshot?.holderCount ?? 0,
+        holderCountIsPartial: false,
+      };
+    }
+    case "rpc": {
+      const totalSupply = await context.effect(getOnChainTotalSupply, {
+        chainId,
+        address: token,
+        blockNumber: blockNumber - 1,
+      });
+      return { totalSupply: BigInt(totalSupply), holderCount: 0, holderCountIsPartial: true };
+    }
+  }
+}
+
+/**
+ * Whether the account counted as a holder before the movement. An opening
+ * balance that isn't in holderCount yet counts as no balance.
+ */
+export function wasHolder(oldBalance: bigint, opening: OpeningBalance | undefined): boolean {
+  if (opening && !opening.isCounted) return false;
+  return oldBalance > 0n;
+}
+
+/** A balance change that may take an account below zero, or back from it. */
+export type NegativeBalanceActivity = {
+  chainId: number;
+  token: string;
+  account: string;
+  oldBalance: bigint;
+  newBalance: bigint;
+  blockNumber: number;
+  txHash: string;
+};
+
+/**
+ * Flag accounts whose indexed balance goes negative in NegativeBalance, and
+ * mark them resolved once it's back at or above zero. The Account keeps the
+ * negative balance so later movements still add up.
+ */
+export async function trackNegativeBalance(
+  context: HandlerContext,
+  activity: NegativeBalanceActivity,
+): Promise<void> {
+  const { chainId, token, account, oldBalance, newBalance, blockNumber, txHash } = activity;
+  if (oldBalance >= 0n && newBalance >= 0n) return;
+
+  const id = `${chainId}-${token}-${account}`;
+  const existing = await context.NegativeBalance.get(id);
+  if (existing) {
+    context.NegativeBalance.set({
+      ...existing,
+      balance: newBalance,
+      lastUpdatedBlock: blockNumber,
+      isResolved: newBalance >= 0n,
+    });
+    return;
+  }
+  context.NegativeBalance.set({
+    id,
+    chainId,
+    token,
+    account,
+    balance: newBalance,
+    firstDetectedBlock: blockNumber,
+    firstDetectedTxHash: txHash,
+    lastUpdatedBlock: blockNumber,
+    isResolved: newBalance >= 0n,
+  });
+}
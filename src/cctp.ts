@@ -0,0 +1,52 @@
+import { decodeAddress } from "./rpc.js";
+
+// Circle CCTP domain ids for the EVM chains it supports. Domains missing here
+// (Noble, Solana, Sui, Aptos) have no chain id.
+const CHAIN_ID_BY_DOMAIN: Record<number, number> = {
+  0: 1, // Ethereum
+  1: 43114, // Avalanche
+  2: 10, // OP Mainnet
+  3: 42161, // Arbitrum
+  6: 8453, // Base
+  7: 137, // Polygon PoS
+  10: 130, // Unichain
+  11: 59144, // Linea
+};
+
+const DOMAIN_BY_CHAIN_ID: Record<number, number> = Object.fromEntries(
+  Object.entries(CHAIN_ID_BY_DOMAIN).map(([domain, chainId]) => [chainId, Number(domain)]),
+);
+
+export function getChainIdForDomain(domain: number): number | undefined {
+  return CHAIN_ID_BY_DOMAIN[domain];
+}
+
+export function getDomainForChainId(chainId: number): number {
+  const domain = DOMAIN_BY_CHAIN_ID[chainId];
+  if (domain === undefined) throw new Error(`No CCTP domain for chain ${chainId}`);
+  return domain;
+}
+
+export function getCrossChainTransferId(sourceDomain: number, nonce: bigint): string {
+  return `${sourceDomain}-${nonce}`;
+}
+
+export type BurnMessage = { burnToken: string; mintRecipient: string; amount: bigint; messageSender: string };
+
+// version (uint32) + burnToken, mintRecipient, amount, messageSender (32 bytes each)
+const BURN_MESSAGE_HEX_LENGTH = 2 + 8 + 64 * 4;
+
+/**
+ * Decode the body of a CCTP v1 BurnMessage. Returns undefined for other
+ * message bodies (MessageTransmitter also relays generic messages).
+ */
+export function decodeBurnMessage(messageBody: string): BurnMessage | undefined {
+  if (messageBody.length !== BURN_MESSAGE_HEX_LENGTH) return undefined;
+  const word = (i: number) => `0x${messageBody.slice(10 + i * 64, 10 + (i + 1) * 64)}`;
+  return {
+    burnToken: decodeAddress(word(0)),
+    mintRecipient: decodeAddress(word(1)),
+    amount: BigInt(word(2)),
+    messageSender: decodeAddress(word(3)),
+  };
+}
@@ -0,0 +1,58 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { DAY } from "./periods.js";
+
+// HolderCohort and its daily snapshots, maintained from each account's holder
+// transitions so retention curves don't need a scan of Account.
+
+/** One account's side of a movement, as seen by the cohort accounting. */
+export type CohortActivity = {
+  chainId: number;
+  token: string;
+  ts: number;
+  firstSeenTimestamp: number;  // Account.firstSeenTimestamp, `ts` for a new account
+  isNewAccount: boolean;
+  wasHolder: boolean;          // counted in TokenSupply.holderCount before the movement
+  isHolder: boolean;
+};
+
+/**
+ * Add a new account to its cohort, or move a member in or out of the cohort's
+ * holders. Accounts whose holder status didn't change are skipped.
+ */
+export async function updateHolderCohort(context: HandlerContext, activity: CohortActivity): Promise<void> {
+  const { chainId, token, ts, isNewAccount, wasHolder, isHolder } = activity;
+  // A new account joins with its balance after the movement: a bootstrapped
+  // opening balance was never counted in the cohort, so there's nothing to leave
+  const holderDelta = (isHolder ? 1 : 0) - (!isNewAccount && wasHolder ? 1 : 0);
+  if (!isNewAccount && holderDelta === 0) return;
+
+  const cohortDayId = Math.floor(activity.firstSeenTimestamp / DAY);
+  const id = `${chainId}-${token}-${cohortDayId}`;
+  const cohort = (await context.HolderCohort.get(id)) ?? {
+    id,
+    chainId,
+    token,
+    cohortDayId,
+    cohortStartTimestamp: cohortDayId * DAY,
+    newAddresses: 0,
+    currentHolders: 0,
+    lastUpdatedTimestamp: ts,
+  };
+  const newAddresses = cohort.newAddresses + (isNewAccount ? 1 : 0);
+  const currentHolders = cohort.currentHolders + holderDelta;
+  context.HolderCohort.set({ ...cohort, newAddresses, currentHolders, lastUpdatedTimestamp: ts });
+
+  const dayId = Math.floor(ts / DAY);
+  context.HolderCohortDailySnapshot.set({
+    id: `${id}-${dayId}`,
+    chainId,
+    token,
+    cohortDayId,
+    dayId,
+    daysSinceCohort: dayId - cohortDayId,
+    newAddresses,
+    holders: currentHolders,
+    retention:
+      newAddresses > 0 ? new BigDecimal(currentHolders).dividedBy(new BigDecimal(newAddresses)) : new BigDecimal(0),
+  });
+}
@@ -0,0 +1,416 @@
+import { readFileSync } from "node:fs";
+
+// Deployment settings read from env vars. Parsed lazily and re-parsed only when
+// the raw value changes, so tests can switch them with vi.stubEnv.
+
+function envSetting<T>(name: string, fallback: string, parse: (raw: string) => T): () => T {
+  let lastRaw: string | undefined;
+  let parsed!: T;
+  return () => {
+    const raw = process.env[name] ?? fallback;
+    if (raw !== lastRaw) {
+      parsed = parse(raw);
+      lastRaw = raw;
+    }
+    return parsed;
+  };
+}
+
+/**
+ * Parse per-token overrides written as `<chainId>-<address>=<value>,...`.
+ * Keys are normalized to `${chainId}-${lowercased address}`.
+ */
+function parseTokenOverrides<T>(raw: string, parse: (value: string) => T): Map<string, T> {
+  const overrides = new Map<string, T>();
+  for (const entry of raw.split(",")) {
+    if (!entry.trim()) continue;
+    const [key, value] = entry.split("=");
+    if (!key || value === undefined) throw new Error(`Invalid token override "${entry}"`);
+    overrides.set(key.trim().toLowerCase(), parse(value.trim()));
+  }
+  return overrides;
+}
+
+// `${chainId}-${lowercased address}`, for tokens and labeled addresses alike
+function tokenKey(chainId: number, address: string): string {
+  return `${chainId}-${address.toLowerCase()}`;
+}
+
+// --- Transfer storage ---
+// none:          no Transfer rows (default, the table is ~25-35% of the DB)
+// large[:<min>]: only transfers of at least <min> whole tokens (default 1M)
+// all:           every transfer
+
+export type TransferStoragePolicy =
+  | { mode: "none" }
+  | { mode: "large"; minTokens: bigint }
+  | { mode: "all" };
+
+const DEFAULT_LARGE_TRANSFER_TOKENS = 1_000_000n;
+
+function parseTransferStoragePolicy(raw: string): TransferStoragePolicy {
+  const [mode, min] = raw.split(":");
+  switch (mode) {
+    case "none":
+    case "all":
+      return { mode };
+    case "large":
+      return { mode, minTokens: min ? BigInt(min) : DEFAULT_LARGE_TRANSFER_TOKENS };
+    default:
+      throw new Error(`Invalid transfer storage policy "${raw}", expected none, large[:<min>] or all`);
+  }
+}
+
+// e.g. TRANSFER_STORAGE=large:5000000
+const getDefaultTransferStorage = envSetting("TRANSFER_STORAGE", "none", parseTransferStoragePolicy);
+// e.g. TRANSFER_STORAGE_OVERRIDES=1-0xdAC17F958D2ee523a2206206994597C13D831ec7=all
+const getTransferStorageOverrides = envSetting("TRANSFER_STORAGE_OVERRIDES", "", (raw) =>
+  parseTokenOverrides(raw, parseTransferStoragePolicy),
+);
+
+export function getTransferStoragePolicy(chainId: number, token: string): TransferStoragePolicy {
+  return getTransferStorageOverrides().get(tokenKey(chainId, token)) ?? getDefaultTransferStorage();
+}
+
+// --- Period snapshots ---
+// Optional PeriodSnapshot rollups on top of the always-on DailySnapshot.
+// Comma-separated periods, prefixed with CHAIN: for a rollup across all tokens
+// on the chain, e.g. PERIOD_SNAPSHOTS=HOUR,WEEK,CHAIN:DAY
+
+export type SnapshotPeriod = "HOUR" | "DAY" | "WEEK";
+
+export type PeriodRollup = { period: SnapshotPeriod; crossToken: boolean };
+
+const SNAPSHOT_PERIODS: readonly SnapshotPeriod[] = ["HOUR", "DAY", "WEEK"];
+
+function parsePeriodRollups(raw: string): PeriodRollup[] {
+  return raw
+    .split(",")
+    .map((entry) => entry.trim().toUpperCase())
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      const crossToken = entry.startsWith("CHAIN:");
+      const period = crossToken ? entry.slice("CHAIN:".length) : entry;
+      if (!SNAPSHOT_PERIODS.includes(period as SnapshotPeriod)) {
+        throw new Error(`Invalid period snapshot "${entry}", expected [CHAIN:]HOUR|DAY|WEEK`);
+      }
+      return { period: period as SnapshotPeriod, crossToken };
+    });
+}
+
+export const getPeriodRollups = envSetting("PERIOD_SNAPSHOTS", "", parsePeriodRollups);
+
+// --- Balance snapshots ---
+// AccountBalanceSnapshot rows per token:
+// threshold[:<bps>]: zero transitions, changes above <bps> of the balance and
+//                    round-number crossings (default, bps from SNAPSHOT_THRESHOLD_BPS)
+// period:<period>:   the threshold rule, plus an account's first change in each HOUR|DAY|WEEK
+// all:               every balance change
+// none:              no rows
+
+export type BalanceSnapshotPolicy =
+  | { mode: "threshold"; bps: bigint | undefined }  // undefined: SNAPSHOT_THRESHOLD_BPS
+  | { mode: "period"; period: SnapshotPeriod }
+  | { mode: "all" }
+  | { mode: "none" };
+
+// e.g. SNAPSHOT_THRESHOLD_BPS=100 for 1%, the default for threshold without <bps>
+export const getSnapshotThresholdBps = envSetting("SNAPSHOT_THRESHOLD_BPS", "10", BigInt);
+
+function parseBalanceSnapshotPolicy(raw: string): BalanceSnapshotPolicy {
+  const [mode, arg] = raw.split(":");
+  switch (mode) {
+    case "none":
+    case "all":
+      return { mode };
+    case "threshold":
+      return { mode, bps: arg ? BigInt(arg) : undefined };
+    case "period": {
+      const period = arg?.toUpperCase();
+      if (!SNAPSHOT_PERIODS.includes(period as SnapshotPeriod)) {
+        throw new Error(`Invalid balance snapshot period "${raw}", expected period:HOUR|DAY|WEEK`);
+      }
+      return { mode, period: period as SnapshotPeriod };
+    }
+    default:
+      throw new Error(
+        `Invalid balance snapshot policy "${raw}", expected threshold[:<bps>], period:<period>, all or none`,
+      );
+  }
+}
+
+// e.g. BALANCE_SNAPSHOTS=period:DAY
+const getDefaultBalanceSnapshots = envSetting("BALANCE_SNAPSHOTS", "threshold", parseBalanceSnapshotPolicy);
+// e.g. BALANCE_SNAPSHOTS_OVERRIDES=130-0x078D782b760474a361dDA0AF3839290b0EF57AD6=all
+const getBalanceSnapshotOverrides = envSetting("BALANCE_SNAPSHOTS_OVERRIDES", "", (raw) =>
+  parseTokenOverrides(raw, parseBalanceSnapshotPolicy),
+);
+
+export function getBalanceSnapshotPolicy(chainId: number, token: string): BalanceSnapshotPolicy {
+  return getBalanceSnapshotOverrides().get(tokenKey(chainId, token)) ?? getDefaultBalanceSnapshots();
+}
+
+// --- Holder distribution ---
+// Tier edges in whole tokens (scaled by each token's decimals), ascending.
+// e.g. HOLDER_TIERS=100,10000,1000000 -> <100, 100-10k, 10k-1M, >=1M
+
+function parseHolderTiers(raw: string): bigint[] {
+  const edges = raw
+    .split(",")
+    .map((edge) => edge.trim())
+    .filter((edge) => edge !== "")
+    .map((edge) => BigInt(edge));
+  for (let i = 1; i < edges.length; i++) {
+    if (edges[i]! <= edges[i - 1]!) throw new Error(`Invalid holder tiers "${raw}", edges must be ascending`);
+  }
+  return edges;
+}
+
+export const getHolderTierEdges = envSetting("HOLDER_TIERS", "100,10000,1000000", parseHolderTiers);
+
+// --- Top-holder leaderboard ---
+// Ranked holders kept per token, e.g. LEADERBOARD_SIZE=100
+
+function parseLeaderboardSize(raw: string): number {
+  const size = Number(raw);
+  if (!Number.isInteger(size) || size <= 0) throw new Error(`Invalid leaderboard size "${raw}"`);
+  return size;
+}
+
+export const getLeaderboardSize = envSetting("LEADERBOARD_SIZE", "100", parseLeaderboardSize);
+
+// --- Address labels ---
+// JSON file of known addresses, e.g. LABELS_FILE=labels.json containing
+//   [{ "address": "0x...", "category": "CEX", "name": "Binance 14", "chainId": 1 }]
+// chainId is optional: without it the label applies on every chain.
+
+export type AddressCategory = "CEX" | "BRIDGE" | "DEX_POOL" | "ISSUER_TREASURY";
+
+export type AddressLabel = { category: AddressCategory; name: string };
+
+const ADDRESS_CATEGORIES: readonly AddressCategory[] = ["CEX", "BRIDGE", "DEX_POOL", "ISSUER_TREASURY"];
+
+type LabelFileEntry = { address?: string; category?: string; name?: string; chainId?: number };
+
+function loadAddressLabels(path: string): Map<string, AddressLabel> {
+  const labels = new Map<string, AddressLabel>();
+  if (!path) return labels;
+  const entries = JSON.parse(readFileSync(path, "utf8")) as LabelFileEntry[];
+  for (const entry of entries) {
+    const { address, category, name, chainId } = entry;
+    if (!address || !name || !ADDRESS_CATEGORIES.includes(category as AddressCategory)) {
+      throw new Error(`Invalid address label ${JSON.stringify(entry)} in ${path}`);
+    }
+    const key = chainId === undefined ? address.toLowerCase() : tokenKey(chainId, address);
+    labels.set(key, { category: category as AddressCategory, name });
+  }
+  return labels;
+}
+
+const getAddressLabels = envSetting("LABELS_FILE", "", loadAddressLabels);
+
+/** Label for an address, preferring a chain-specific entry over an all-chains one. */
+export function getAddressLabel(chainId: number, address: string): AddressLabel | undefined {
+  const labels = getAddressLabels();
+  return labels.get(tokenKey(chainId, address)) ?? labels.get(address.toLowerCase());
+}
+
+// --- Supply reconciliation ---
+// Compare TokenSupply with the contract's totalSupply() (and optionally the top
+// holders' balanceOf) over RPC every n blocks or days.
+// none (default) | blocks:<n> | days:<n>, e.g. RECONCILE_INTERVAL=days:1
+
+export type ReconcileInterval = { unit: "none" } | { unit: "blocks" | "days"; every: number };
+
+function parseReconcileInterval(raw: string): ReconcileInterval {
+  if (raw === "none") return { unit: "none" };
+  const [unit, every] = raw.split(":");
+  const n = Number(every);
+  if ((unit !== "blocks" && unit !== "days") || !Number.isInteger(n) || n <= 0) {
+    throw new Error(`Invalid reconcile interval "${raw}", expected none, blocks:<n> or days:<n>`);
+  }
+  return { unit, every: n };
+}
+
+export const getReconcileInterval = envSetting("RECONCILE_INTERVAL", "none", parseReconcileInterval);
+
+// Leaderboard members whose balanceOf is checked too, e.g. RECONCILE_TOP_ACCOUNTS=10
+export const getReconcileTopAccounts = envSetting("RECONCILE_TOP_ACCOUNTS", "0", (raw) => {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Invalid RECONCILE_TOP_ACCOUNTS "${raw}"`);
+  return n;
+});
+
+// --- Bootstrap ---
+// Opening balances for a start_block after the token's deployment.
+// none (default): every account and the supply start at 0
+// rpc:            balanceOf / totalSupply() at the block before first sight
+// file:<path>:    snapshot file, JSON or CSV (by extension), see parseBootstrapFile
+
+export type BootstrapMode = { mode: "none" } | { mode: "rpc" } | { mode: "file"; snapshots: Map<string, TokenSnapshot> };
+
+/** Opening state of one token. Balances keyed by lowercased address. */
+export type TokenSnapshot = { totalSupply: bigint; holderCount: number; balances: Map<string, bigint> };
+
+type SnapshotFileEntry = { chainId: number; token: string; totalSupply?: string; balances: Record<string, string> };
+
+/**
+ * JSON: [{ "chainId": 1, "token": "0x...", "totalSupply": "123", "balances": { "0x...": "100" } }]
+ *       (totalSupply defaults to the sum of balances)
+ * CSV:  chainId,token,address,balance rows, optional header
+ */
+function parseBootstrapFile(path: string): Map<string, TokenSnapshot> {
+  const raw = readFileSync(path, "utf8");
+  const entries: SnapshotFileEntry[] = [];
+  if (path.endsWith(".csv")) {
+    const byToken = new Map<string, SnapshotFileEntry>();
+    for (const line of raw.split("\n")) {
+      const [chainId, token, address, balance] = line.split(",").map((cell) => cell.trim());
+      if (!chainId || chainId === "chainId") continue;
+      if (!token || !address || !balance) throw new Error(`Invalid bootstrap row "${line}" in ${path}`);
+      const key = tokenKey(Number(chainId), token);
+      let entry = byToken.get(key);
+      if (!entry) {
+        entry = { chainId: Number(chainId), token, balances: {} };
+        byToken.set(key, entry);
+        entries.push(entry);
+      }
+      entry.balances[address] = balance;
+    }
+  } else {
+    entries.push(...(JSON.parse(raw) as SnapshotFileEntry[]));
+  }
+
+  const snapshots = new Map<string, TokenSnapshot>();
+  for (const { chainId, token, totalSupply, balances } of entries) {
+    const parsed = new Map<string, bigint>();
+    for (const [address, balance] of Object.entries(balances)) {
+      if (BigInt(balance) > 0n) parsed.set(address.toLowerCase(), BigInt(balance));
+    }
+    const sum = [...parsed.values()].reduce((total, balance) => total + balance, 0n);
+    snapshots.set(tokenKey(chainId, token), {
+      totalSupply: totalSupply === undefined ? sum : BigInt(totalSupply),
+      holderCount: parsed.size,
+      balances: parsed,
+    });
+  }
+  return snapshots;
+}
+
+function parseBootstrapMode(raw: string): BootstrapMode {
+  if (raw === "none" || raw === "rpc") return { mode: raw };
+  if (raw.startsWith("file:")) return { mode: "file", snapshots: parseBootstrapFile(raw.slice("file:".length)) };
+  throw new Error(`Invalid bootstrap mode "${raw}", expected none, rpc or file:<path>`);
+}
+
+export const getBootstrapMode = envSetting("BOOTSTRAP", "none", parseBootstrapMode);
+
+/** Snapshot for a token in file mode, if the file has one. */
+export function getTokenSnapshot(chainId: number, token: string): TokenSnapshot | undefined {
+  const bootstrap = getBootstrapMode();
+  return bootstrap.mode === "file" ? bootstrap.snapshots.get(tokenKey(chainId, token)) : undefined;
+}
+
+// --- Dormancy ---
+// Ages in days above which a balance counts as dormant, ascending.
+// e.g. DORMANCY_THRESHOLDS=90,365,730 -> idle for 90 days, 1 year, 2 years
+
+function parseDormancyThresholds(raw: string): number[] {
+  const thresholds = raw
+    .split(",")
+    .map((days) => days.trim())
+    .filter((days) => days !== "")
+    .map(Number);
+  if (thresholds.length === 0 || thresholds.some((days) => !Number.isInteger(days) || days <= 0)) {
+    throw new Error(`Invalid dormancy thresholds "${raw}", expected positive day counts`);
+  }
+  for (let i = 1; i < thresholds.length; i++) {
+    if (thresholds[i]! <= thresholds[i - 1]!) throw new Error(`Invalid dormancy thresholds "${raw}", must be ascending`);
+  }
+  return thresholds;
+}
+
+export const getDormancyThresholds = envSetting("DORMANCY_THRESHOLDS", "90,365,730", parseDormancyThresholds);
+
+// --- Counterparty flows ---
+// AccountPairFlow rows start when a transfer between two addresses is at least
+// PAIR_FLOW_MIN_TOKENS whole tokens, or either side is labeled (LABELS_FILE) or
+// among the top PAIR_FLOW_TOP_N Leaderboard holders. Once a pair has a row,
+// every later transfer between them is added.
+
+// e.g. PAIR_FLOW_MIN_TOKENS=100000
+export const getPairFlowMinTokens = envSetting("PAIR_FLOW_MIN_TOKENS", "1000000", BigInt);
+
+// e.g. PAIR_FLOW_TOP_N=20, 0 to ignore the leaderboard (capped by LEADERBOARD_SIZE)
+export const getPairFlowTopN = envSetting("PAIR_FLOW_TOP_N", "100", (raw) => {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Invalid PAIR_FLOW_TOP_N "${raw}"`);
+  return n;
+});
+
+// --- Alerts ---
+// Thresholds for Alert rows, empty (default) to turn a kind off. Token amounts
+// are in whole tokens, e.g. ALERT_TRANSFER_MIN_TOKENS=10000000
+
+const parseOptionalBigInt = (raw: string): bigint | undefined => (raw === "" ? undefined : BigInt(raw));
+
+export const getAlertTransferMinTokens = envSetting("ALERT_TRANSFER_MIN_TOKENS", "", parseOptionalBigInt);
+export const getAlertMintBurnMinTokens = envSetting("ALERT_MINT_BURN_MIN_TOKENS", "", parseOptionalBigInt);
+// Holders gained or lost since the start of the day, e.g. ALERT_HOLDER_SWING=500
+export const getAlertHolderSwing = envSetting("ALERT_HOLDER_SWING", "", (raw) => {
+  if (raw === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n <= 0) throw new Error(`Invalid ALERT_HOLDER_SWING "${raw}"`);
+  return n;
+});
+
+// --- Anomalies ---
+// |z-score| of today's running DailySnapshot values against the previous 7 / 30
+// days at which an Anomaly is written, or off. e.g. ANOMALY_Z_SCORE=4
+
+function parseZScore(raw: string): number | undefined {
+  if (raw === "off") return undefined;
+  const z = Number(raw);
+  if (!Number.isFinite(z) || z <= 0) {
+    throw new Error(`Invalid anomaly z-score "${raw}", expected a positive number or off`);
+  }
+  return z;
+}
+
+const getDefaultAnomalyZScore = envSetting("ANOMALY_Z_SCORE", "3", parseZScore);
+// e.g. ANOMALY_Z_SCORE_OVERRIDES=1-0xdAC17F958D2ee523a2206206994597C13D831ec7=5,130-0x...=off
+const getAnomalyZScoreOverrides = envSetting("ANOMALY_Z_SCORE_OVERRIDES", "", (raw) =>
+  parseTokenOverrides(raw, parseZScore),
+);
+
+export function getAnomalyZScore(chainId: number, token: string): number | undefined {
+  const overrides = getAnomalyZScoreOverrides();
+  const key = tokenKey(chainId, token);
+  return overrides.has(key) ? overrides.get(key) : getDefaultAnomalyZScore();
+}
+
+// --- Unique address counting ---
+// How DailySnapshot and PeriodSnapshot count unique active addresses:
+// exact: a PeriodActiveAddress marker per address and period (default)
+// hll:   a HyperLogLog sketch on the snapshot row and no markers, ~1.6% standard
+//        error (see src/hyperLogLog.ts). Switching modes needs a re-index.
+
+export type UniqueAddressCounter = "exact" | "hll";
+
+export const getUniqueAddressCounter = envSetting("UNIQUE_ADDRESS_COUNTER", "exact", (raw): UniqueAddressCounter => {
+  const mode = raw.trim().toLowerCase();
+  if (mode !== "exact" && mode !== "hll") {
+    throw new Error(`Invalid UNIQUE_ADDRESS_COUNTER "${raw}", expected exact or hll`);
+  }
+  return mode;
+});
+
+// --- Account types ---
+// rpc:  classify each new Account by its code (eth_getCode, RPC_URL_<chainId>)
+//       and split supply and volume between EOAs and contracts
+// none: no lookups, accountType stays empty (default)
+
+export const getAccountTypeMode = envSetting("ACCOUNT_TYPES", "none", (raw): "none" | "rpc" => {
+  if (raw !== "none" && raw !== "rpc") throw new Error(`Invalid ACCOUNT_TYPES "${raw}", expected none or rpc`);
+  return raw;
+});
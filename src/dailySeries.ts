@@ -0,0 +1,84 @@
+import { BigDecimal, type DailySnapshot, type HandlerContext, type TokenSupply } from "generated";
+import { DAY } from "./periods.js";
+
+// Keeps DailySnapshot gap-free: a token's first event of a day writes the rows
+// for any days without activity since the previous one.
+
+function getDailySnapshotId(chainId: number, token: string, dayId: number): string {
+  return `${chainId}-${token}-${dayId}`;
+}
+
+/**
+ * A day without transfer activity, closing at the given supply state. `ref`
+ * carries the concentration and dormancy figures forward, as nothing moved
+ * since; dormancy is then brought up to date by updateDormancy.
+ */
+export function emptyDailySnapshot(
+  supply: TokenSupply,
+  dayId: number,
+  openingSupply: bigint,
+  decimals: number,
+  ref?: DailySnapshot,
+): DailySnapshot {
+  const { chainId, token, totalSupply } = supply;
+  return {
+    id: getDailySnapshotId(chainId, token, dayId),
+    chainId,
+    token,
+    dayId,
+    dayStartTimestamp: dayId * DAY,
+    dailyVolume: 0n,
+    dailyVolumeNormalized: new BigDecimal(0),
+    dailyTransferCount: 0,
+    dailyIssuerMintVolume: 0n,
+    dailyIssuerBurnVolume: 0n,
+    dailyBridgeMintVolume: 0n,
+    dailyBridgeBurnVolume: 0n,
+    uniqueActiveAddresses: 0,
+    activeAddressSketch: undefined,
+    newAddressCount: 0,
+    churnedAddressCount: 0,
+    openingSupply,
+    endOfDaySupply: totalSupply,
+    endOfDaySupplyNormalized: new BigDecimal(totalSupply.toString()).shiftedBy(-decimals),
+    supplyChange: totalSupply - openingSupply,
+    openingHolderCount: supply.holderCount,
+    holderCount: supply.holderCount,
+    velocity: new BigDecimal(0),
+    adjustedVolume: 0n,
+    adjustedVelocity: new BigDecimal(0),
+    transactionCount: 0,
+    coinDaysDestroyed: new BigDecimal(0),
+    dormancyThresholds: ref?.dormancyThresholds ?? [],
+    dormantSupply: ref?.dormantSupply ?? [],
+    activityAdjustedVelocity: new BigDecimal(0),
+    frozenAddressCount: supply.frozenAddressCount,
+    frozenBalance: supply.frozenBalance,
+    eoaSupply: supply.eoaSupply,
+    contractSupply: supply.contractSupply,
+    dailyEoaVolume: 0n,
+    dailyContractVolume: 0n,
+    top10Share: ref?.top10Share,
+    top100Share: ref?.top100Share,
+  };
+}
+
+/**
+ * Write empty rows for the days between the token's last update and `dayId`.
+ * `supply` is the state before the current event, i.e. at the end of the last
+ * active day, and stays the same across the gap.
+ */
+export async function fillDailyGap(
+  context: HandlerContext,
+  supply: TokenSupply,
+  dayId: number,
+  decimals: number,
+): Promise<void> {
+  const lastDayId = Math.floor(supply.lastUpdatedTimestamp / DAY);
+  if (dayId - lastDayId <= 1) return;
+
+  const last = await context.DailySnapshot.get(getDailySnapshotId(supply.chainId, supply.token, lastDayId));
+  for (let gapDayId = lastDayId + 1; gapDayId < dayId; gapDayId++) {
+    context.DailySnapshot.set(emptyDailySnapshot(supply, gapDayId, supply.totalSupply, decimals, last));
+  }
+}
@@ -0,0 +1,99 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { getHolderTierEdges } from "./config.js";
+import { DAY } from "./periods.js";
+import type { BalanceChange } from "./types.js";
+
+// Holder counts and balances per tier (HOLDER_TIERS), maintained from each
+// account balance change so the frontend doesn't have to scan Account.
+
+/** The balances a movement changed; each old and new balance picks a tier. */
+export type DistributionActivity = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  ts: number;
+  balanceChanges: BalanceChange[];  // one per non-zero address
+  totalSupply: bigint;              // token supply after the movement
+};
+
+/**
+ * Tier of a balance given edges in base units, or -1 if the address isn't a holder.
+ * A balance equal to an edge belongs to the tier above it.
+ */
+function getTier(balance: bigint, edges: bigint[]): number {
+  if (balance <= 0n) return -1;
+  let tier = 0;
+  while (tier < edges.length && balance >= edges[tier]!) tier++;
+  return tier;
+}
+
+function sameEdges(a: readonly bigint[], b: readonly bigint[]): boolean {
+  return a.length === b.length && a.every((edge, i) => edge === b[i]);
+}
+
+/**
+ * Move balances between tiers and rewrite HolderDistribution plus the day's
+ * HolderDistributionDailySnapshot (the last write of the day is end of day).
+ */
+export async function updateHolderDistribution(
+  context: HandlerContext,
+  activity: DistributionActivity,
+): Promise<void> {
+  const { chainId, token, decimals, ts, totalSupply } = activity;
+  const tierEdges = getHolderTierEdges();
+  const unit = 10n ** BigInt(decimals);
+  const edges = tierEdges.map((edge) => edge * unit);
+
+  const id = `${chainId}-${token}`;
+  const existing = await context.HolderDistribution.get(id);
+  if (existing && !sameEdges(existing.tierEdges, tierEdges)) {
+    throw new Error(`HOLDER_TIERS changed since HolderDistribution ${id} was created, a re-index is needed`);
+  }
+
+  const tierCount = tierEdges.length + 1;
+  const holderCounts = existing ? [...existing.holderCounts] : new Array<number>(tierCount).fill(0);
+  const tierBalances = existing ? [...existing.tierBalances] : new Array<bigint>(tierCount).fill(0n);
+
+  for (const { oldBalance, newBalance } of activity.balanceChanges) {
+    const oldTier = getTier(oldBalance, edges);
+    const newTier = getTier(newBalance, edges);
+    if (oldTier >= 0) {
+      tierBalances[oldTier] = tierBalances[oldTier]! - oldBalance;
+      if (oldTier !== newTier) holderCounts[oldTier] = holderCounts[oldTier]! - 1;
+    }
+    if (newTier >= 0) {
+      tierBalances[newTier] = tierBalances[newTier]! + newBalance;
+      if (oldTier !== newTier) holderCounts[newTier] = holderCounts[newTier]! + 1;
+    }
+  }
+
+  // Recomputed on every write, since mints/burns shift every tier's share
+  const supply = new BigDecimal(totalSupply.toString());
+  const supplyShares = tierBalances.map((balance) =>
+    totalSupply > 0n ? new BigDecimal(balance.toString()).dividedBy(supply) : new BigDecimal(0),
+  );
+
+  context.HolderDistribution.set({
+    id,
+    chainId,
+    token,
+    tierEdges,
+    holderCounts,
+    tierBalances,
+    supplyShares,
+    lastUpdatedTimestamp: ts,
+  });
+
+  const dayId = Math.floor(ts / DAY);
+  context.HolderDistributionDailySnapshot.set({
+    id: `${chainId}-${token}-${dayId}`,
+    chainId,
+    token,
+    dayId,
+    dayStartTimestamp: dayId * DAY,
+    tierEdges,
+    holderCounts,
+    tierBalances,
+    supplyShares,
+  });
+}
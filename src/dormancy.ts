@@ -0,0 +1,121 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { getDormancyThresholds } from "./config.js";
+import { DAY } from "./periods.js";
+
+// Dormant supply per DORMANCY_THRESHOLDS and coin-days destroyed, from the
+// balance-weighted acquisition time kept on each Account.
+
+/** An account balance change with its acquisition time before and after. */
+export type AgeChange = {
+  oldBalance: bigint;
+  newBalance: bigint;
+  oldAcquiredTimestamp: number;
+  newAcquiredTimestamp: number;
+};
+
+/** Balance and acquisition-time changes of the accounts an event touched. */
+export type DormancyActivity = {
+  chainId: number;
+  token: string;
+  ts: number;
+  changes: AgeChange[];      // accounts first seen count from zero, acquired at `ts`
+};
+
+/** Dormant supply after the event, one value per threshold. */
+export type Dormancy = { thresholds: number[]; dormantSupply: bigint[] };
+
+/**
+ * Acquisition time after receiving `received` at `ts`: the balance-weighted
+ * average, so a large deposit makes an old balance young again. Sending keeps it.
+ */
+export function getAcquiredTimestamp(
+  oldBalance: bigint,
+  oldAcquiredTimestamp: number,
+  received: bigint,
+  ts: number,
+): number {
+  if (oldBalance <= 0n) return ts;
+  return Number((oldBalance * BigInt(oldAcquiredTimestamp) + received * BigInt(ts)) / (oldBalance + received));
+}
+
+/** Whole tokens sent times the days they sat idle. Only the balance actually held ages. */
+export function getCoinDaysDestroyed(
+  balance: bigint,
+  acquiredTimestamp: number,
+  sent: bigint,
+  ts: number,
+  decimals: number,
+): BigDecimal {
+  const aged = sent < balance ? sent : balance;
+  if (aged <= 0n || ts <= acquiredTimestamp) return new BigDecimal(0);
+  return new BigDecimal(aged.toString())
+    .shiftedBy(-decimals)
+    .times(ts - acquiredTimestamp)
+    .dividedBy(DAY);
+}
+
+/** Supply that moved within the shortest threshold, for the activity-adjusted velocity. */
+export function getActiveSupply(totalSupply: bigint, { dormantSupply }: Dormancy): bigint {
+  const active = totalSupply - (dormantSupply[0] ?? 0n);
+  return active > 0n ? active : 0n;
+}
+
+function sameThresholds(a: readonly number[], b: readonly number[]): boolean {
+  return a.length === b.length && a.every((days, i) => days === b[i]);
+}
+
+const held = (balance: bigint) => (balance > 0n ? balance : 0n);
+
+/**
+ * Age the token's buckets to the event's day, then move the changed balances
+ * between buckets. Days skipped since the last update get their DailySnapshot
+ * (written by the gap fill) patched with the dormant supply of that day.
+ */
+export async function updateDormancy(context: HandlerContext, activity: DormancyActivity): Promise<Dormancy> {
+  const { chainId, token, ts } = activity;
+  const thresholds = getDormancyThresholds();
+  const id = `${chainId}-${token}`;
+  const dayId = Math.floor(ts / DAY);
+  const bucketId = (acquiredDayId: number) => `${id}-${acquiredDayId}`;
+
+  const state = await context.DormancyState.get(id);
+  if (state && !sameThresholds(state.thresholds, thresholds)) {
+    throw new Error(`DORMANCY_THRESHOLDS changed since DormancyState ${id} was created, a re-index is needed`);
+  }
+  const dormantSupply = state ? [...state.dormantSupply] : thresholds.map(() => 0n);
+
+  // Each day, the bucket acquired `days` earlier crosses the threshold
+  for (let day = (state?.lastDayId ?? dayId) + 1; day <= dayId; day++) {
+    for (const [i, days] of thresholds.entries()) {
+      const bucket = await context.DormancyBucket.get(bucketId(day - days));
+      if (bucket) dormantSupply[i] = dormantSupply[i]! + bucket.balance;
+    }
+    if (day === dayId) break;
+    const daily = await context.DailySnapshot.get(`${id}-${day}`);
+    if (daily) {
+      context.DailySnapshot.set({ ...daily, dormancyThresholds: thresholds, dormantSupply: [...dormantSupply] });
+    }
+  }
+
+  // Net change per bucket, so a bucket touched by both sides is written once
+  const deltas = new Map<number, bigint>();
+  const add = (acquiredTimestamp: number, delta: bigint) => {
+    const acquiredDayId = Math.floor(acquiredTimestamp / DAY);
+    deltas.set(acquiredDayId, (deltas.get(acquiredDayId) ?? 0n) + delta);
+  };
+  for (const change of activity.changes) {
+    add(change.oldAcquiredTimestamp, -held(change.oldBalance));
+    add(change.newAcquiredTimestamp, held(change.newBalance));
+  }
+  for (const [acquiredDayId, delta] of deltas) {
+    if (delta === 0n) continue;
+    const bucket = await context.DormancyBucket.get(bucketId(acquiredDayId));
+    context.DormancyBucket.set({ id: bucketId(acquiredDayId), balance: (bucket?.balance ?? 0n) + delta });
+    thresholds.forEach((days, i) => {
+      if (acquiredDayId <= dayId - days) dormantSupply[i] = dormantSupply[i]! + delta;
+    });
+  }
+
+  context.DormancyState.set({ id, thresholds, dormantSupply, lastDayId: dayId });
+  return { thresholds, dormantSupply };
+}
@@ -0,0 +1,105 @@
+import { createEffect, S } from "envio";
+import {
+  SELECTORS,
+  decodeAccountType,
+  decodeAddress,
+  decodeString,
+  decodeUint,
+  encodeAddress,
+  ethCall,
+  getCode,
+} from "./rpc.js";
+
+/**
+ * Read ERC20 metadata for a token that isn't in the static registry.
+ * Cached, since metadata never changes for a deployed token.
+ */
+export const getTokenMetadata = createEffect(
+  {
+    name: "getTokenMetadata",
+    input: { chainId: S.number, address: S.string },
+    output: { symbol: S.string, name: S.string, decimals: S.number },
+    rateLimit: false,
+    cache: true,
+  },
+  async ({ input }) => {
+    const [decimals, symbol, name] = await Promise.all([
+      ethCall(input.chainId, input.address, SELECTORS.decimals),
+      ethCall(input.chainId, input.address, SELECTORS.symbol),
+      ethCall(input.chainId, input.address, SELECTORS.name),
+    ]);
+    return {
+      decimals: Number(decodeUint(decimals)),
+      symbol: decodeString(symbol),
+      name: decodeString(name),
+    };
+  },
+);
+
+/**
+ * Read `owner()` at a block. USDT Issue/Redeem move the owner's balance
+ * without naming the owner in the event.
+ */
+export const getContractOwner = createEffect(
+  {
+    name: "getContractOwner",
+    input: { chainId: S.number, address: S.string, blockNumber: S.number },
+    output: S.string,
+    rateLimit: false,
+    cache: true,
+  },
+  async ({ input }) =>
+    decodeAddress(await ethCall(input.chainId, input.address, SELECTORS.owner, input.blockNumber)),
+);
+
+/**
+ * Read `totalSupply()` at a block, for reconciliation. Returned as a decimal
+ * string so the cached output stays JSON-serializable.
+ */
+export const getOnChainTotalSupply = createEffect(
+  {
+    name: "getOnChainTotalSupply",
+    input: { chainId: S.number, address: S.string, blockNumber: S.number },
+    output: S.string,
+    rateLimit: false,
+    cache: true,
+  },
+  async ({ input }) =>
+    decodeUint(await ethCall(input.chainId, input.address, SELECTORS.totalSupply, input.blockNumber)).toString(),
+);
+
+/** Read `balanceOf(account)` at a block, for reconciliation. */
+export const getOnChainBalance = createEffect(
+  {
+    name: "getOnChainBalance",
+    input: { chainId: S.number, address: S.string, account: S.string, blockNumber: S.number },
+    output: S.string,
+    rateLimit: false,
+    cache: true,
+  },
+  async ({ input }) =>
+    decodeUint(
+      await ethCall(
+        input.chainId,
+        input.address,
+        `${SELECTORS.balanceOf}${encodeAddress(input.account)}`,
+        input.blockNumber,
+      ),
+    ).toString(),
+);
+
+/**
+ * Classify an address by its current code. Read at the latest block rather
+ * than at first sight, so a counterfactual wallet funded before deployment
+ * still counts as a contract, and cached per address across tokens.
+ */
+export const getAccountType = createEffect(
+  {
+    name: "getAccountType",
+    input: { chainId: S.number, address: S.string },
+    output: S.string,
+    rateLimit: false,
+    cache: true,
+  },
+  async ({ input }) => decodeAccountType(await getCode(input.chainId, input.address)),
+);
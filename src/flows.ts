@@ -0,0 +1,73 @@
+import type { HandlerContext } from "generated";
+import { type AddressCategory, getAddressLabel } from "./config.js";
+import { DAY } from "./periods.js";
+
+type FlowField =
+  | "exchangeInflow"
+  | "exchangeOutflow"
+  | "bridgeInflow"
+  | "bridgeOutflow"
+  | "issuerInflow"
+  | "issuerOutflow";
+
+// DailyFlow fields per address category. DEX pools are labeled but not tracked as flows.
+const FLOW_FIELDS: Partial<Record<AddressCategory, { inflow: FlowField; outflow: FlowField }>> = {
+  CEX: { inflow: "exchangeInflow", outflow: "exchangeOutflow" },
+  BRIDGE: { inflow: "bridgeInflow", outflow: "bridgeOutflow" },
+  ISSUER_TREASURY: { inflow: "issuerInflow", outflow: "issuerOutflow" },
+};
+
+/** A movement as seen by the labeled flow accounting. */
+export type FlowActivity = {
+  chainId: number;
+  token: string;
+  ts: number;
+  from: string;
+  to: string;
+  value: bigint;
+};
+
+/**
+ * Classify a movement by the categories of `from` and `to` and add it to the
+ * day's DailyFlow. Movements that don't touch a tracked category are skipped.
+ */
+export async function updateDailyFlow(context: HandlerContext, activity: FlowActivity): Promise<void> {
+  const { chainId, token, ts, from, to, value } = activity;
+  const fromCategory = getAddressLabel(chainId, from)?.category;
+  const toCategory = getAddressLabel(chainId, to)?.category;
+  if (fromCategory === toCategory) return;
+
+  const outflow = fromCategory && FLOW_FIELDS[fromCategory]?.outflow;
+  const inflow = toCategory && FLOW_FIELDS[toCategory]?.inflow;
+  if (!outflow && !inflow) return;
+
+  const dayId = Math.floor(ts / DAY);
+  const dailyId = `${chainId}-${token}-${dayId}`;
+  const daily = (await context.DailyFlow.get(dailyId)) ?? {
+    id: dailyId,
+    chainId,
+    token,
+    dayId,
+    dayStartTimestamp: dayId * DAY,
+    exchangeInflow: 0n,
+    exchangeOutflow: 0n,
+    netExchangeFlow: 0n,
+    bridgeInflow: 0n,
+    bridgeOutflow: 0n,
+    issuerInflow: 0n,
+    issuerOutflow: 0n,
+  };
+  const delta = (field: FlowField) => (field === outflow || field === inflow ? value : 0n);
+  const exchangeInflow = daily.exchangeInflow + delta("exchangeInflow");
+  const exchangeOutflow = daily.exchangeOutflow + delta("exchangeOutflow");
+  context.DailyFlow.set({
+    ...daily,
+    exchangeInflow,
+    exchangeOutflow,
+    netExchangeFlow: exchangeInflow - exchangeOutflow,
+    bridgeInflow: daily.bridgeInflow + delta("bridgeInflow"),
+    bridgeOutflow: daily.bridgeOutflow + delta("bridgeOutflow"),
+    issuerInflow: daily.issuerInflow + delta("issuerInflow"),
+    issuerOutflow: daily.issuerOutflow + delta("issuerOutflow"),
+  });
+}
@@ -0,0 +1,119 @@
+import { MessageTransmitter, TokenMessenger, type HandlerContext } from "generated";
+import { decodeBurnMessage, getChainIdForDomain, getCrossChainTransferId, getDomainForChainId } from "../cctp.js";
+import { DAY } from "../periods.js";
+import { decodeAddress } from "../rpc.js";
+import { getSupplyId } from "../tokens.js";
+
+/**
+ * Move a CCTP mint or burn from the issuer to the bridge columns of TokenSupply
+ * and DailySnapshot. The zero-address Transfer earlier in the same transaction
+ * already counted it as an issuer mint/burn. Skipped for tokens not indexed here.
+ */
+async function reclassifyAsBridge(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  ts: number,
+  amount: bigint,
+  isMint: boolean,
+): Promise<void> {
+  const mintVal = isMint ? amount : 0n;
+  const burnVal = isMint ? 0n : amount;
+
+  const supply = await context.TokenSupply.get(getSupplyId(chainId, token));
+  if (!supply) return;
+  context.TokenSupply.set({
+    ...supply,
+    issuerMinted: supply.issuerMinted - mintVal,
+    issuerBurned: supply.issuerBurned - burnVal,
+    bridgeMinted: supply.bridgeMinted + mintVal,
+    bridgeBurned: supply.bridgeBurned + burnVal,
+  });
+
+  const dayId = Math.floor(ts / DAY);
+  const daily = await context.DailySnapshot.get(`${chainId}-${token}-${dayId}`);
+  if (!daily) return;
+  context.DailySnapshot.set({
+    ...daily,
+    dailyIssuerMintVolume: daily.dailyIssuerMintVolume - mintVal,
+    dailyIssuerBurnVolume: daily.dailyIssuerBurnVolume - burnVal,
+    dailyBridgeMintVolume: daily.dailyBridgeMintVolume + mintVal,
+    dailyBridgeBurnVolume: daily.dailyBridgeBurnVolume + burnVal,
+  });
+}
+
+// Source side: USDC burned for a mint on destinationDomain
+TokenMessenger.DepositForBurn.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const { nonce, burnToken, amount, depositor, mintRecipient, destinationDomain } = event.params;
+  const sourceDomain = getDomainForChainId(chainId);
+
+  const id = getCrossChainTransferId(sourceDomain, nonce);
+  const received = await context.CrossChainTransfer.get(id);
+  context.CrossChainTransfer.set({
+    id,
+    nonce,
+    sourceDomain,
+    destinationDomain: Number(destinationDomain),
+    sourceChainId: chainId,
+    destinationChainId: getChainIdForDomain(Number(destinationDomain)),
+    amount,
+    sender: depositor,
+    recipient: decodeAddress(mintRecipient),
+    burnToken,
+    status: received ? "COMPLETED" : "BURNED",
+    sourceTxHash: event.transaction.hash,
+    sourceTimestamp: event.block.timestamp,
+    destinationTxHash: received?.destinationTxHash,
+    destinationTimestamp: received?.destinationTimestamp,
+  });
+
+  await reclassifyAsBridge(context, chainId, burnToken, event.block.timestamp, amount, false);
+});
+
+// Destination side: the mint itself. MessageReceived in the same transaction
+// carries the nonce that links it to the burn.
+TokenMessenger.MintAndWithdraw.handler(async ({ event, context }) => {
+  const { mintToken, amount } = event.params;
+  await reclassifyAsBridge(context, event.chainId, mintToken, event.block.timestamp, amount, true);
+});
+
+MessageTransmitter.MessageReceived.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const burnMessage = decodeBurnMessage(event.params.messageBody);
+  if (!burnMessage) return;
+
+  const sourceDomain = Number(event.params.sourceDomain);
+  const nonce = event.params.nonce;
+  const id = getCrossChainTransferId(sourceDomain, nonce);
+  const burned = await context.CrossChainTransfer.get(id);
+
+  if (burned) {
+    context.CrossChainTransfer.set({
+      ...burned,
+      status: "COMPLETED",
+      destinationTxHash: event.transaction.hash,
+      destinationTimestamp: event.block.timestamp,
+    });
+    return;
+  }
+
+  // Source chain not indexed, or not processed up to the burn yet
+  context.CrossChainTransfer.set({
+    id,
+    nonce,
+    sourceDomain,
+    destinationDomain: getDomainForChainId(chainId),
+    sourceChainId: getChainIdForDomain(sourceDomain),
+    destinationChainId: chainId,
+    amount: burnMessage.amount,
+    sender: burnMessage.messageSender,
+    recipient: burnMessage.mintRecipient,
+    burnToken: burnMessage.burnToken,
+    status: "MINTED",
+    sourceTxHash: undefined,
+    sourceTimestamp: undefined,
+    destinationTxHash: event.transaction.hash,
+    destinationTimestamp: event.block.timestamp,
+  });
+});
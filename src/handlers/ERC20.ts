@@ -1,47 +1,95 @@
-import { ERC20, BigDecimal } from "generated";
+import { ERC20, BigDecimal, type DailySnapshot, type HandlerContext, type Minter, type TokenSupply } from "generated";
+import { addHolderTypeChange, emptyHolderTypeDelta, resolveAccountType } from "../accountTypes.js";
+import { recordAlerts } from "../alerts.js";
+import { recordApproval, spendAllowance } from "../allowances.js";
+import { updateAnomalies } from "../anomalies.js";
+import { addAssetHoldings, updateAssetRollups } from "../assets.js";
+import { getOpeningBalance, getOpeningSupply, trackNegativeBalance, wasHolder } from "../bootstrap.js";
+import {
+  getAddressLabel,
+  getBalanceSnapshotPolicy,
+  getSnapshotThresholdBps,
+  getTransferStoragePolicy,
+} from "../config.js";
+import { updateHolderCohort } from "../cohorts.js";
+import { emptyDailySnapshot, fillDailyGap } from "../dailySeries.js";
+import {
+  type AgeChange,
+  getAcquiredTimestamp,
+  getActiveSupply,
+  getCoinDaysDestroyed,
+  updateDormancy,
+} from "../dormancy.js";
+import { updateHolderDistribution } from "../distribution.js";
+import { getContractOwner } from "../effects.js";
+import { updateDailyFlow } from "../flows.js";
+import { updateLeaderboard } from "../leaderboard.js";
+import { applyTransactionNetting } from "../netting.js";
+import { updatePairFlow } from "../pairFlows.js";
+import { isReconciliationDue, reconcileSupply } from "../reconcile.js";
+import { updateRollingWindows } from "../rollingWindows.js";
+import {
+  DAY,
+  PERIOD_SECONDS,
+  computeVelocity,
+  countActiveAddresses,
+  updatePeriodSnapshots,
+} from "../periods.js";
+import { getOrCreateToken, getSupplyId } from "../tokens.js";
+import type { BalanceChange } from "../types.js";
 
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
-// const HOUR = 3600;  // COMMENTED OUT: HourlySnapshot removed
-const DAY = 86400;
-// const WEEK = 604800;  // COMMENTED OUT: WeeklySnapshot removed
 
-// Threshold for balance snapshots: only snapshot when balance changes by >0.1%
-// or crosses a round-number boundary, or goes to/from zero.
-// Configurable via env var for mainnet (e.g., SNAPSHOT_THRESHOLD_BPS=100 for 1%)
-const BALANCE_CHANGE_THRESHOLD_BPS = BigInt(process.env.SNAPSHOT_THRESHOLD_BPS ?? "10"); // 0.1% = 10 bps
-
-// Round-number boundaries for snapshot triggers (in token base units, assuming 6 decimals)
+// Round-number boundaries for threshold snapshot triggers (in whole tokens, scaled by each token's decimals)
 const ROUND_BOUNDARIES = [
-  10_000n * 1_000_000n,   // 10k tokens
-  100_000n * 1_000_000n,  // 100k tokens
-  1_000_000n * 1_000_000n, // 1M tokens
-  10_000_000n * 1_000_000n, // 10M tokens
+  10_000n,      // 10k tokens
+  100_000n,     // 100k tokens
+  1_000_000n,   // 1M tokens
+  10_000_000n,  // 10M tokens
 ];
 
+// ROUND_BOUNDARIES in base units, memoized per decimals value
+const roundBoundariesByDecimals = new Map<number, bigint[]>();
+
+function getRoundBoundaries(decimals: number): bigint[] {
+  let boundaries = roundBoundariesByDecimals.get(decimals);
+  if (!boundaries) {
+    const unit = 10n ** BigInt(decimals);
+    boundaries = ROUND_BOUNDARIES.map((b) => b * unit);
+    roundBoundariesByDecimals.set(decimals, boundaries);
+  }
+  return boundaries;
+}
+
 function getAccountId(chainId: number, token: string, address: string): string {
   return `${chainId}-${token}-${address}`;
 }
 
+/** Account label columns, from LABELS_FILE. */
+function getAccountLabel(chainId: number, address: string) {
+  const label = getAddressLabel(chainId, address);
+  return { labelCategory: label?.category, labelName: label?.name };
+}
+
 /**
- * Determine if a balance change warrants a snapshot.
- * Always snapshot when:
+ * Threshold rule for balance snapshots. True when:
  * - Balance goes to zero (account emptied)
  * - Balance comes from zero (account funded)
- * - Balance changes by >threshold% of the previous balance
- * - Balance crosses a round-number boundary
+ * - Balance changes by more than `bps` of the previous balance
+ * - Balance crosses a round-number boundary (in whole tokens, per `decimals`)
  */
-function shouldSnapshot(oldBalance: bigint, newBalance: bigint): boolean {
+function crossesSnapshotThreshold(oldBalance: bigint, newBalance: bigint, decimals: number, bps: bigint): boolean {
   // Always snapshot zero transitions
   if (oldBalance === 0n || newBalance === 0n) return true;
 
   // Check percentage change: |change| * 10000 > oldBalance * threshold
   const change = newBalance > oldBalance ? newBalance - oldBalance : oldBalance - newBalance;
-  if (change * 10000n > (oldBalance < 0n ? -oldBalance : oldBalance) * BALANCE_CHANGE_THRESHOLD_BPS) {
+  if (change * 10000n > (oldBalance < 0n ? -oldBalance : oldBalance) * bps) {
     return true;
   }
 
   // Check if crossed any round-number boundary
-  for (const boundary of ROUND_BOUNDARIES) {
+  for (const boundary of getRoundBoundaries(decimals)) {
     if ((oldBalance < boundary && newBalance >= boundary) ||
         (oldBalance >= boundary && newBalance < boundary)) {
       return true;
@@ -52,68 +100,173 @@ function shouldSnapshot(oldBalance: bigint, newBalance: bigint): boolean {
 }
 
 /**
- * Compute velocity as volume / supply. Returns BigDecimal.
- * Returns 0 if supply is zero.
+ * Whether the token's balance snapshot policy records this change.
+ * `lastChangeTimestamp` is the account's previous balance change, undefined
+ * for an account seen for the first time.
  */
-function computeVelocity(volume: bigint, supply: bigint): BigDecimal {
-  if (supply === 0n) return new BigDecimal(0);
-  return new BigDecimal(volume.toString()).dividedBy(new BigDecimal(supply.toString()));
+function shouldSnapshot(
+  chainId: number,
+  token: string,
+  decimals: number,
+  oldBalance: bigint,
+  newBalance: bigint,
+  lastChangeTimestamp: number | undefined,
+  ts: number,
+): boolean {
+  const policy = getBalanceSnapshotPolicy(chainId, token);
+  switch (policy.mode) {
+    case "none":
+      return false;
+    case "all":
+      return true;
+    case "threshold":
+      return crossesSnapshotThreshold(oldBalance, newBalance, decimals, policy.bps ?? getSnapshotThresholdBps());
+    case "period": {
+      const length = PERIOD_SECONDS[policy.period];
+      if (lastChangeTimestamp === undefined || Math.floor(lastChangeTimestamp / length) !== Math.floor(ts / length)) {
+        return true;
+      }
+      return crossesSnapshotThreshold(oldBalance, newBalance, decimals, getSnapshotThresholdBps());
+    }
+  }
 }
 
 /**
- * Track a unique address for a time period. Returns true if this is
- * the first time the address appeared in this period (new unique).
+ * Write the account's balance for the day. The last change of the day leaves
+ * the closing balance; the first one sets the opening balance.
  */
-async function trackUnique(
-  entity: { get: (id: string) => Promise<{ id: string } | undefined>; set: (v: { id: string }) => void },
-  id: string,
-): Promise<boolean> {
-  const existing = await entity.get(id);
-  if (existing) return false;
-  entity.set({ id });
-  return true;
+async function recordDailyBalance(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  account: string,
+  ts: number,
+  oldBalance: bigint,
+  newBalance: bigint,
+): Promise<void> {
+  const dayId = Math.floor(ts / DAY);
+  const id = `${chainId}-${token}-${account}-${dayId}`;
+  const existing = await context.AccountDailyBalance.get(id);
+  context.AccountDailyBalance.set({
+    id,
+    chainId,
+    token,
+    account,
+    dayId,
+    openingBalance: existing?.openingBalance ?? oldBalance,
+    closingBalance: newBalance,
+  });
 }
 
-ERC20.Transfer.handler(async ({ event, context }) => {
-  const chainId = event.chainId;
-  const token = event.srcAddress;
-  const from = event.params.from;
-  const to = event.params.to;
-  const value = event.params.value;
-  const blockNumber = event.block.number;
-  const ts = event.block.timestamp;
+/**
+ * Whether the token's transfer storage policy keeps this transfer.
+ * Thresholds are in whole tokens, so they're scaled by `decimals`.
+ */
+function shouldStoreTransfer(chainId: number, token: string, value: bigint, decimals: number): boolean {
+  const policy = getTransferStoragePolicy(chainId, token);
+  switch (policy.mode) {
+    case "none":
+      return false;
+    case "all":
+      return true;
+    case "large":
+      return value >= policy.minTokens * 10n ** BigInt(decimals);
+  }
+}
+
+/**
+ * Scale a base-unit amount to whole tokens, e.g. 1_500_000n with 6 decimals -> 1.5.
+ */
+function normalize(amount: bigint, decimals: number): BigDecimal {
+  return new BigDecimal(amount.toString()).shiftedBy(-decimals);
+}
+
+/**
+ * A token balance moving between two addresses. Supply changes that don't emit
+ * a Transfer log (e.g. USDT DestroyedBlackFunds) are passed in as movements
+ * to/from ZERO_ADDRESS, so they're counted the same way as zero-address transfers.
+ */
+type Movement = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  asset: string | undefined;   // Token.asset, for cross-chain rollups
+  from: string;
+  to: string;
+  value: bigint;
+  blockNumber: number;
+  ts: number;
+  logIndex: number;
+  txHash: string;
+};
+
+/**
+ * Apply a movement to Account (and NegativeBalance), TokenSupply, Leaderboard,
+ * DailySnapshot (with its Anomaly scores and RollingWindowSnapshot), the asset
+ * rollups, HolderDistribution, HolderCohort, DailyFlow, AccountPairFlow, Alert,
+ * AccountDailyBalance and AccountDailyActivity.
+ */
+async function processMovement(context: HandlerContext, movement: Movement): Promise<void> {
+  const { chainId, token, decimals, asset, from, to, value, blockNumber, ts, logIndex, txHash } = movement;
 
   const isMint = from === ZERO_ADDRESS;
   const isBurn = to === ZERO_ADDRESS;
-  // const transferType = isMint ? "MINT" : isBurn ? "BURN" : "TRANSFER";  // COMMENTED OUT: Transfer entity removed
-
-  // --- COMMENTED OUT: Transfer entity (largest table, ~25-35% of DB) ---
-  // context.Transfer.set({
-  //   id: `${chainId}_${token}_${blockNumber}_${event.logIndex}`,
-  //   chainId,
-  //   token,
-  //   blockNumber,
-  //   blockTimestamp: ts,
-  //   logIndex: event.logIndex,
-  //   txHash: event.transaction.hash,
-  //   from,
-  //   to,
-  //   value,
-  //   transferType,
-  // });
 
   // --- Track holder count changes ---
   let holderDelta = 0;
+  // --- New accounts and holders dropping to zero, for the daily counts ---
+  let newAddresses = 0;
+  let churnedAddresses = 0;
+  // --- Track balance held by blacklisted accounts ---
+  let frozenDelta = 0n;
+  // --- Balance changes for the holder distribution and leaderboard ---
+  const balanceChanges: BalanceChange[] = [];
+  // --- Balance ages for dormant supply, and the age the sender spent ---
+  const ageChanges: AgeChange[] = [];
+  let coinDaysDestroyed = new BigDecimal(0);
+  // --- Supply and volume by holder type (ACCOUNT_TYPES) ---
+  const holderTypes = emptyHolderTypeDelta();
 
   // 1. Update sender Account (skip for mints)
   if (!isMint) {
     const senderId = getAccountId(chainId, token, from);
     const sender = await context.Account.get(senderId);
-    const oldBalance = sender?.balance ?? 0n;
+    const opening = sender ? undefined : await getOpeningBalance(context, chainId, token, from, blockNumber);
+    const oldBalance = sender?.balance ?? opening!.balance;
     const newBalance = oldBalance - value;
 
-    if (oldBalance !== 0n && newBalance === 0n) holderDelta--;
-    if (oldBalance === 0n && newBalance !== 0n) holderDelta++;
+    const heldBefore = wasHolder(oldBalance, opening);
+    const holdsAfter = newBalance > 0n;
+    if (heldBefore && !holdsAfter) {
+      holderDelta--;
+      churnedAddresses++;
+    }
+    if (!heldBefore && holdsAfter) holderDelta++;
+    if (!sender) newAddresses++;
+    if (sender?.isBlacklisted) frozenDelta -= value;
+    const senderType = sender ? sender.accountType : await resolveAccountType(context, chainId, from);
+    addHolderTypeChange(holderTypes, senderType, newBalance - (sender ? oldBalance : 0n), value);
+    // The distribution only holds accounts seen since start_block
+    balanceChanges.push({ address: from, oldBalance: sender ? oldBalance : 0n, newBalance });
+    // Opening balances are aged from first sight
+    const acquiredTimestamp = sender?.acquiredTimestamp ?? ts;
+    coinDaysDestroyed = getCoinDaysDestroyed(oldBalance, acquiredTimestamp, value, ts, decimals);
+    ageChanges.push({
+      oldBalance: sender ? oldBalance : 0n,
+      newBalance,
+      oldAcquiredTimestamp: acquiredTimestamp,
+      newAcquiredTimestamp: acquiredTimestamp,
+    });
+    await trackNegativeBalance(context, { chainId, token, account: from, oldBalance, newBalance, blockNumber, txHash });
+    await updateHolderCohort(context, {
+      chainId,
+      token,
+      ts,
+      firstSeenTimestamp: sender?.firstSeenTimestamp ?? ts,
+      isNewAccount: !sender,
+      wasHolder: heldBefore,
+      isHolder: holdsAfter,
+    });
 
     if (sender) {
       context.Account.set({
@@ -123,6 +276,8 @@ ERC20.Transfer.handler(async ({ event, context }) => {
         transfersOut: sender.transfersOut + 1,
         // lastActiveBlock: blockNumber,  // COMMENTED OUT: not queried by frontend
         lastActiveTimestamp: ts,
+        balanceUpdatedTimestamp: ts,
+        ...getAccountLabel(chainId, from),
       });
     } else {
       context.Account.set({
@@ -139,13 +294,19 @@ ERC20.Transfer.handler(async ({ event, context }) => {
         firstSeenTimestamp: ts,
         // lastActiveBlock: blockNumber,  // COMMENTED OUT: not queried by frontend
         lastActiveTimestamp: ts,
+        balanceUpdatedTimestamp: ts,
+        acquiredTimestamp,
+        isBlacklisted: false,
+        blacklistedTimestamp: undefined,
+        ...getAccountLabel(chainId, from),
+        accountType: senderType,
       });
     }
 
-    // Threshold-based balance snapshot for sender
-    if (shouldSnapshot(oldBalance, newBalance)) {
+    // Balance snapshot and closing balance for sender
+    if (shouldSnapshot(chainId, token, decimals, oldBalance, newBalance, sender?.balanceUpdatedTimestamp, ts)) {
       context.AccountBalanceSnapshot.set({
-        id: `${chainId}-${token}-${from}-${blockNumber}-${event.logIndex}`,
+        id: `${chainId}-${token}-${from}-${blockNumber}-${logIndex}`,
         chainId,
         token,
         account: from,
@@ -153,20 +314,50 @@ ERC20.Transfer.handler(async ({ event, context }) => {
         blockTimestamp: ts,
         balance: newBalance,
         balanceChange: 0n - value,
-        txHash: event.transaction.hash,
+        txHash,
       });
     }
+    await recordDailyBalance(context, chainId, token, from, ts, oldBalance, newBalance);
   }
 
   // 2. Update receiver Account (skip for burns)
   if (!isBurn) {
     const receiverId = getAccountId(chainId, token, to);
     const receiver = await context.Account.get(receiverId);
-    const oldBalance = receiver?.balance ?? 0n;
+    const opening = receiver ? undefined : await getOpeningBalance(context, chainId, token, to, blockNumber);
+    const oldBalance = receiver?.balance ?? opening!.balance;
     const newBalance = oldBalance + value;
 
-    if (oldBalance !== 0n && newBalance === 0n) holderDelta--;
-    if (oldBalance === 0n && newBalance !== 0n) holderDelta++;
+    const heldBefore = wasHolder(oldBalance, opening);
+    const holdsAfter = newBalance > 0n;
+    if (heldBefore && !holdsAfter) {
+      holderDelta--;
+      churnedAddresses++;
+    }
+    if (!heldBefore && holdsAfter) holderDelta++;
+    if (!receiver) newAddresses++;
+    if (receiver?.isBlacklisted) frozenDelta += value;
+    const receiverType = receiver ? receiver.accountType : await resolveAccountType(context, chainId, to);
+    addHolderTypeChange(holderTypes, receiverType, newBalance - (receiver ? oldBalance : 0n), 0n);
+    balanceChanges.push({ address: to, oldBalance: receiver ? oldBalance : 0n, newBalance });
+    const oldAcquiredTimestamp = receiver?.acquiredTimestamp ?? ts;
+    const acquiredTimestamp = getAcquiredTimestamp(oldBalance, oldAcquiredTimestamp, value, ts);
+    ageChanges.push({
+      oldBalance: receiver ? oldBalance : 0n,
+      newBalance,
+      oldAcquiredTimestamp,
+      newAcquiredTimestamp: acquiredTimestamp,
+    });
+    await trackNegativeBalance(context, { chainId, token, account: to, oldBalance, newBalance, blockNumber, txHash });
+    await updateHolderCohort(context, {
+      chainId,
+      token,
+      ts,
+      firstSeenTimestamp: receiver?.firstSeenTimestamp ?? ts,
+      isNewAccount: !receiver,
+      wasHolder: heldBefore,
+      isHolder: holdsAfter,
+    });
 
     if (receiver) {
       context.Account.set({
@@ -176,6 +367,9 @@ ERC20.Transfer.handler(async ({ event, context }) => {
         transfersIn: receiver.transfersIn + 1,
         // lastActiveBlock: blockNumber,  // COMMENTED OUT: not queried by frontend
         lastActiveTimestamp: ts,
+        balanceUpdatedTimestamp: ts,
+        acquiredTimestamp,
+        ...getAccountLabel(chainId, to),
       });
     } else {
       context.Account.set({
@@ -192,13 +386,19 @@ ERC20.Transfer.handler(async ({ event, context }) => {
         firstSeenTimestamp: ts,
         // lastActiveBlock: blockNumber,  // COMMENTED OUT: not queried by frontend
         lastActiveTimestamp: ts,
+        balanceUpdatedTimestamp: ts,
+        acquiredTimestamp,
+        isBlacklisted: false,
+        blacklistedTimestamp: undefined,
+        ...getAccountLabel(chainId, to),
+        accountType: receiverType,
       });
     }
 
-    // Threshold-based balance snapshot for receiver
-    if (shouldSnapshot(oldBalance, newBalance)) {
+    // Balance snapshot and closing balance for receiver
+    if (shouldSnapshot(chainId, token, decimals, oldBalance, newBalance, receiver?.balanceUpdatedTimestamp, ts)) {
       context.AccountBalanceSnapshot.set({
-        id: `${chainId}-${token}-${to}-${blockNumber}-${event.logIndex}`,
+        id: `${chainId}-${token}-${to}-${blockNumber}-${logIndex}`,
         chainId,
         token,
         account: to,
@@ -206,216 +406,296 @@ ERC20.Transfer.handler(async ({ event, context }) => {
         blockTimestamp: ts,
         balance: newBalance,
         balanceChange: value,
-        txHash: event.transaction.hash,
+        txHash,
       });
     }
+    await recordDailyBalance(context, chainId, token, to, ts, oldBalance, newBalance);
   }
 
   // 3. Update TokenSupply
-  const supplyId = `${chainId}-${token}-supply`;
+  const supplyId = getSupplyId(chainId, token);
   const supply = await context.TokenSupply.get(supplyId);
   const mintVal = isMint ? value : 0n;
   const burnVal = isBurn ? value : 0n;
+  const bootstrapSupply = supply ? undefined : await getOpeningSupply(context, chainId, token, blockNumber);
+  const previousTotalSupply = supply?.totalSupply ?? bootstrapSupply!.totalSupply;
+  const previousHolderCount = supply?.holderCount ?? bootstrapSupply!.holderCount;
 
-  let currentTotalSupply: bigint;
+  // Check the supply indexed so far against the contract (RECONCILE_INTERVAL)
+  const reconciled = isReconciliationDue(supply, blockNumber, ts);
+  if (reconciled) await reconcileSupply(context, chainId, token, previousTotalSupply, blockNumber, ts);
+
+  let updatedSupply: TokenSupply;
   if (supply) {
-    currentTotalSupply = supply.totalSupply + mintVal - burnVal;
-    context.TokenSupply.set({
+    const totalSupply = supply.totalSupply + mintVal - burnVal;
+    updatedSupply = {
       ...supply,
-      totalSupply: currentTotalSupply,
+      totalSupply,
+      totalSupplyNormalized: normalize(totalSupply, decimals),
       totalMinted: supply.totalMinted + mintVal,
       totalBurned: supply.totalBurned + burnVal,
+      issuerMinted: supply.issuerMinted + mintVal,
+      issuerBurned: supply.issuerBurned + burnVal,
       allTimeVolume: supply.allTimeVolume + value,
       holderCount: supply.holderCount + holderDelta,
       mintCount: supply.mintCount + (isMint ? 1 : 0),
       burnCount: supply.burnCount + (isBurn ? 1 : 0),
       transferCount: supply.transferCount + 1,
+      frozenBalance: supply.frozenBalance + frozenDelta,
+      eoaSupply: supply.eoaSupply + holderTypes.eoaSupply,
+      contractSupply: supply.contractSupply + holderTypes.contractSupply,
+      eoaVolume: supply.eoaVolume + holderTypes.eoaVolume,
+      contractVolume: supply.contractVolume + holderTypes.contractVolume,
+      lastReconciledBlock: reconciled ? blockNumber - 1 : supply.lastReconciledBlock,
+      lastReconciledTimestamp: reconciled ? ts : supply.lastReconciledTimestamp,
       lastUpdatedBlock: blockNumber,
       lastUpdatedTimestamp: ts,
-    });
+    };
   } else {
-    currentTotalSupply = mintVal - burnVal;
-    context.TokenSupply.set({
+    const totalSupply = previousTotalSupply + mintVal - burnVal;
+    updatedSupply = {
       id: supplyId,
       chainId,
       token,
-      totalSupply: currentTotalSupply,
+      totalSupply,
+      totalSupplyNormalized: normalize(totalSupply, decimals),
       totalMinted: mintVal,
       totalBurned: burnVal,
+      issuerMinted: mintVal,
+      issuerBurned: burnVal,
+      bridgeMinted: 0n,
+      bridgeBurned: 0n,
       allTimeVolume: value,
-      holderCount: holderDelta,
+      holderCount: previousHolderCount + holderDelta,
+      holderCountIsPartial: bootstrapSupply!.holderCountIsPartial,
       mintCount: isMint ? 1 : 0,
       burnCount: isBurn ? 1 : 0,
       transferCount: 1,
+      frozenAddressCount: 0,
+      frozenBalance: frozenDelta,
+      ...holderTypes,
+      lastReconciledBlock: reconciled ? blockNumber - 1 : undefined,
+      lastReconciledTimestamp: reconciled ? ts : undefined,
       lastUpdatedBlock: blockNumber,
       lastUpdatedTimestamp: ts,
-    });
+    };
   }
+  context.TokenSupply.set(updatedSupply);
+  const currentTotalSupply = updatedSupply.totalSupply;
 
-  // --- Unique address tracking per day ---
   const dayId = Math.floor(ts / DAY);
 
-  let dailyUniques = 0;
-
+  // Non-zero addresses, for unique active address counts
   const addresses: string[] = [];
   if (!isMint) addresses.push(from);
   if (!isBurn) addresses.push(to);
 
-  for (const addr of addresses) {
-    if (await trackUnique(context.DailyActiveAddress, `${chainId}-${token}-${dayId}-${addr}`))
-      dailyUniques++;
-    // --- COMMENTED OUT: WeeklyActiveAddress tracking (WeeklySnapshot removed) ---
-    // if (await trackUnique(context.WeeklyActiveAddress, `${chainId}-${token}-${weekId}-${addr}`))
-    //   weeklyUniques++;
-  }
+  // Top holders, feeding the daily concentration figures
+  const { top10Share, top100Share } = await updateLeaderboard(context, {
+    chainId,
+    token,
+    blockNumber,
+    ts,
+    logIndex,
+    txHash,
+    balanceChanges,
+    totalSupply: currentTotalSupply,
+    supplyChanged: isMint || isBurn,
+  });
 
-  // --- COMMENTED OUT: HourlySnapshot (not used by frontend, saves 1 read + 1 write/event) ---
-  // const hourId = Math.floor(ts / HOUR);
-  // const hourlyId = `${chainId}-${token}-${hourId}`;
-  // const hourly = await context.HourlySnapshot.get(hourlyId);
-  // if (hourly) {
-  //   context.HourlySnapshot.set({
-  //     ...hourly,
-  //     volume: hourly.volume + value,
-  //     transferCount: hourly.transferCount + 1,
-  //     mintVolume: hourly.mintVolume + mintVal,
-  //     burnVolume: hourly.burnVolume + burnVal,
-  //     netMintBurnFlow: hourly.netMintBurnFlow + netFlow,
-  //     mintCount: hourly.mintCount + (isMint ? 1 : 0),
-  //     burnCount: hourly.burnCount + (isBurn ? 1 : 0),
-  //     endOfHourSupply: currentTotalSupply,
-  //     lastBlockOfHour: blockNumber,
-  //   });
-  // } else {
-  //   context.HourlySnapshot.set({
-  //     id: hourlyId,
-  //     chainId,
-  //     token,
-  //     hourId,
-  //     hourStartTimestamp: hourId * HOUR,
-  //     volume: value,
-  //     transferCount: 1,
-  //     mintVolume: mintVal,
-  //     burnVolume: burnVal,
-  //     netMintBurnFlow: netFlow,
-  //     mintCount: isMint ? 1 : 0,
-  //     burnCount: isBurn ? 1 : 0,
-  //     endOfHourSupply: currentTotalSupply,
-  //     firstBlockOfHour: blockNumber,
-  //     lastBlockOfHour: blockNumber,
-  //   });
-  // }
+  // Net flows within the transaction, for adjusted volume
+  const { adjustedDelta, isNewTransaction } = await applyTransactionNetting(context, {
+    chainId,
+    token,
+    txHash,
+    from,
+    to,
+    value,
+  });
 
   // 4. DailySnapshot (trimmed — only fields used by frontend)
   const dailyId = `${chainId}-${token}-${dayId}`;
   const daily = await context.DailySnapshot.get(dailyId);
+  if (!daily && supply) await fillDailyGap(context, supply, dayId, decimals);
+  const dayScope = { chainId, scope: token, period: "DAY" as const, periodId: dayId };
+  const { count: active, firstActive } = await countActiveAddresses(context, dayScope, addresses, daily);
+  const dormancy = await updateDormancy(context, { chainId, token, ts, changes: ageChanges });
+  const activeSupply = getActiveSupply(currentTotalSupply, dormancy);
+  let updatedDaily: DailySnapshot;
   if (daily) {
     const updatedVolume = daily.dailyVolume + value;
-    context.DailySnapshot.set({
+    const adjustedVolume = daily.adjustedVolume + adjustedDelta;
+    updatedDaily = {
       ...daily,
       dailyVolume: updatedVolume,
+      dailyVolumeNormalized: normalize(updatedVolume, decimals),
       dailyTransferCount: daily.dailyTransferCount + 1,
+      dailyIssuerMintVolume: daily.dailyIssuerMintVolume + mintVal,
+      dailyIssuerBurnVolume: daily.dailyIssuerBurnVolume + burnVal,
       // dailyMintVolume: daily.dailyMintVolume + mintVal,   // COMMENTED OUT: not queried
       // dailyBurnVolume: daily.dailyBurnVolume + burnVal,   // COMMENTED OUT: not queried
       // netMintBurnFlow: daily.netMintBurnFlow + netFlow,   // COMMENTED OUT: not queried
       // dailyMintCount: daily.dailyMintCount + (isMint ? 1 : 0),  // COMMENTED OUT: not queried
       // dailyBurnCount: daily.dailyBurnCount + (isBurn ? 1 : 0),  // COMMENTED OUT: not queried
-      uniqueActiveAddresses: daily.uniqueActiveAddresses + dailyUniques,
-      // newAddressCount: daily.newAddressCount + newAddresses,  // COMMENTED OUT: not queried
+      ...active,
+      newAddressCount: daily.newAddressCount + newAddresses,
+      churnedAddressCount: daily.churnedAddressCount + churnedAddresses,
       endOfDaySupply: currentTotalSupply,
+      endOfDaySupplyNormalized: normalize(currentTotalSupply, decimals),
+      supplyChange: currentTotalSupply - daily.openingSupply,
+      holderCount: updatedSupply.holderCount,
       velocity: computeVelocity(updatedVolume, currentTotalSupply),
+      adjustedVolume,
+      adjustedVelocity: computeVelocity(adjustedVolume, currentTotalSupply),
+      transactionCount: daily.transactionCount + (isNewTransaction ? 1 : 0),
+      coinDaysDestroyed: daily.coinDaysDestroyed.plus(coinDaysDestroyed),
+      dormancyThresholds: dormancy.thresholds,
+      dormantSupply: dormancy.dormantSupply,
+      activityAdjustedVelocity: computeVelocity(updatedVolume, activeSupply),
+      frozenAddressCount: updatedSupply.frozenAddressCount,
+      frozenBalance: updatedSupply.frozenBalance,
+      eoaSupply: updatedSupply.eoaSupply,
+      contractSupply: updatedSupply.contractSupply,
+      dailyEoaVolume: daily.dailyEoaVolume + holderTypes.eoaVolume,
+      dailyContractVolume: daily.dailyContractVolume + holderTypes.contractVolume,
+      top10Share,
+      top100Share,
       // lastBlockOfDay: blockNumber,  // COMMENTED OUT: not queried
-    });
+    };
   } else {
-    context.DailySnapshot.set({
+    updatedDaily = {
       id: dailyId,
       chainId,
       token,
       dayId,
       dayStartTimestamp: dayId * DAY,
       dailyVolume: value,
+      dailyVolumeNormalized: normalize(value, decimals),
       dailyTransferCount: 1,
+      dailyIssuerMintVolume: mintVal,
+      dailyIssuerBurnVolume: burnVal,
+      dailyBridgeMintVolume: 0n,
+      dailyBridgeBurnVolume: 0n,
       // dailyMintVolume: mintVal,           // COMMENTED OUT: not queried
       // dailyBurnVolume: burnVal,           // COMMENTED OUT: not queried
       // netMintBurnFlow: netFlow,           // COMMENTED OUT: not queried
       // dailyMintCount: isMint ? 1 : 0,    // COMMENTED OUT: not queried
       // dailyBurnCount: isBurn ? 1 : 0,    // COMMENTED OUT: not queried
-      uniqueActiveAddresses: dailyUniques,
-      // newAddressCount: newAddresses,      // COMMENTED OUT: not queried
+      ...active,
+      newAddressCount: newAddresses,
+      churnedAddressCount: churnedAddresses,
+      openingSupply: previousTotalSupply,
       endOfDaySupply: currentTotalSupply,
+      endOfDaySupplyNormalized: normalize(currentTotalSupply, decimals),
+      supplyChange: currentTotalSupply - previousTotalSupply,
+      openingHolderCount: previousHolderCount,
+      holderCount: updatedSupply.holderCount,
       velocity: computeVelocity(value, currentTotalSupply),
+      adjustedVolume: adjustedDelta,
+      adjustedVelocity: computeVelocity(adjustedDelta, currentTotalSupply),
+      transactionCount: 1,
+      coinDaysDestroyed,
+      dormancyThresholds: dormancy.thresholds,
+      dormantSupply: dormancy.dormantSupply,
+      activityAdjustedVelocity: computeVelocity(value, activeSupply),
+      frozenAddressCount: updatedSupply.frozenAddressCount,
+      frozenBalance: updatedSupply.frozenBalance,
+      eoaSupply: updatedSupply.eoaSupply,
+      contractSupply: updatedSupply.contractSupply,
+      dailyEoaVolume: holderTypes.eoaVolume,
+      dailyContractVolume: holderTypes.contractVolume,
+      top10Share,
+      top100Share,
       // firstBlockOfDay: blockNumber,       // COMMENTED OUT: not queried
       // lastBlockOfDay: blockNumber,        // COMMENTED OUT: not queried
+    };
+  }
+  context.DailySnapshot.set(updatedDaily);
+
+  // Today's running values against the previous 7 / 30 days (ANOMALY_Z_SCORE)
+  await updateAnomalies(context, { chainId, token, decimals, blockNumber, ts, daily: updatedDaily });
+
+  // Trailing 7 / 30 day volume, velocity and distinct addresses
+  await updateRollingWindows(context, {
+    chainId,
+    token,
+    decimals,
+    value,
+    firstActiveAddresses: firstActive,
+    totalSupply: currentTotalSupply,
+    daily: updatedDaily,
+  });
+
+  // Optional hourly / weekly / cross-token rollups (PERIOD_SNAPSHOTS)
+  await updatePeriodSnapshots(context, {
+    chainId,
+    token,
+    decimals,
+    blockNumber,
+    ts,
+    value,
+    mintVal,
+    burnVal,
+    addresses,
+    totalSupply: currentTotalSupply,
+  });
+
+  // Cross-chain rollups for tokens mapped to an asset in the static registry
+  if (asset) {
+    if (bootstrapSupply) {
+      await addAssetHoldings(context, {
+        asset,
+        chainId,
+        ts,
+        totalSupply: normalize(bootstrapSupply.totalSupply, decimals),
+        holderCount: bootstrapSupply.holderCount,
+      });
+    }
+    await updateAssetRollups(context, {
+      asset,
+      chainId,
+      ts,
+      value: normalize(value, decimals),
+      minted: normalize(mintVal, decimals),
+      burned: normalize(burnVal, decimals),
+      holderDelta,
     });
   }
 
-  // --- COMMENTED OUT: WeeklySnapshot (not used by frontend, saves 1 read + 1 write + BigDecimal/event) ---
-  // const weekId = Math.floor(ts / WEEK);
-  // const weeklyId = `${chainId}-${token}-${weekId}`;
-  // const weekly = await context.WeeklySnapshot.get(weeklyId);
-  // if (weekly) {
-  //   const updatedVolume = weekly.weeklyVolume + value;
-  //   context.WeeklySnapshot.set({
-  //     ...weekly,
-  //     weeklyVolume: updatedVolume,
-  //     weeklyTransferCount: weekly.weeklyTransferCount + 1,
-  //     weeklyMintVolume: weekly.weeklyMintVolume + mintVal,
-  //     weeklyBurnVolume: weekly.weeklyBurnVolume + burnVal,
-  //     netMintBurnFlow: weekly.netMintBurnFlow + netFlow,
-  //     weeklyMintCount: weekly.weeklyMintCount + (isMint ? 1 : 0),
-  //     weeklyBurnCount: weekly.weeklyBurnCount + (isBurn ? 1 : 0),
-  //     uniqueActiveAddresses: weekly.uniqueActiveAddresses + weeklyUniques,
-  //     endOfWeekSupply: currentTotalSupply,
-  //     velocity: computeVelocity(updatedVolume, currentTotalSupply),
-  //     lastBlockOfWeek: blockNumber,
-  //   });
-  // } else {
-  //   context.WeeklySnapshot.set({
-  //     id: weeklyId,
-  //     chainId,
-  //     token,
-  //     weekId,
-  //     weekStartTimestamp: weekId * WEEK,
-  //     weeklyVolume: value,
-  //     weeklyTransferCount: 1,
-  //     weeklyMintVolume: mintVal,
-  //     weeklyBurnVolume: burnVal,
-  //     netMintBurnFlow: netFlow,
-  //     weeklyMintCount: isMint ? 1 : 0,
-  //     weeklyBurnCount: isBurn ? 1 : 0,
-  //     uniqueActiveAddresses: weeklyUniques,
-  //     endOfWeekSupply: currentTotalSupply,
-  //     velocity: computeVelocity(value, currentTotalSupply),
-  //     firstBlockOfWeek: blockNumber,
-  //     lastBlockOfWeek: blockNumber,
-  //   });
-  // }
-
-  // --- COMMENTED OUT: CrossTokenDailySnapshot (not used by frontend, computable from DailySnapshot) ---
-  // const crossDailyId = `${chainId}-${dayId}`;
-  // const crossDaily = await context.CrossTokenDailySnapshot.get(crossDailyId);
-  // if (crossDaily) {
-  //   context.CrossTokenDailySnapshot.set({
-  //     ...crossDaily,
-  //     totalVolume: crossDaily.totalVolume + value,
-  //     totalTransferCount: crossDaily.totalTransferCount + 1,
-  //     totalMintVolume: crossDaily.totalMintVolume + mintVal,
-  //     totalBurnVolume: crossDaily.totalBurnVolume + burnVal,
-  //     netMintBurnFlow: crossDaily.netMintBurnFlow + netFlow,
-  //   });
-  // } else {
-  //   context.CrossTokenDailySnapshot.set({
-  //     id: crossDailyId,
-  //     chainId,
-  //     dayId,
-  //     dayStartTimestamp: dayId * DAY,
-  //     totalVolume: value,
-  //     totalTransferCount: 1,
-  //     totalMintVolume: mintVal,
-  //     totalBurnVolume: burnVal,
-  //     netMintBurnFlow: netFlow,
-  //   });
-  // }
+  // Holders and supply share per balance tier (HOLDER_TIERS)
+  await updateHolderDistribution(context, {
+    chainId,
+    token,
+    decimals,
+    ts,
+    balanceChanges,
+    totalSupply: currentTotalSupply,
+  });
+
+  // Exchange / bridge / issuer flows between labeled addresses (LABELS_FILE)
+  await updateDailyFlow(context, { chainId, token, ts, from, to, value });
+
+  // Counterparty volume between significant addresses
+  if (!isMint && !isBurn) await updatePairFlow(context, { chainId, token, decimals, ts, from, to, value });
+
+  // Outbox rows for the alert worker (ALERT_* thresholds)
+  await recordAlerts(context, {
+    chainId,
+    token,
+    decimals,
+    blockNumber,
+    ts,
+    logIndex,
+    txHash,
+    from,
+    to,
+    value,
+    isMint,
+    isBurn,
+    dayId,
+    openingHolderCount: daily?.openingHolderCount ?? previousHolderCount,
+    holderCount: updatedSupply.holderCount,
+  });
 
   // 5. AccountDailyActivity for sender (skip for mints)
   if (!isMint) {
@@ -464,4 +744,487 @@ ERC20.Transfer.handler(async ({ event, context }) => {
       });
     }
   }
+}
+
+ERC20.Transfer.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const from = event.params.from;
+  const to = event.params.to;
+  const value = event.params.value;
+  const blockNumber = event.block.number;
+  const ts = event.block.timestamp;
+
+  const { decimals, asset } = await getOrCreateToken(context, chainId, token);
+
+  const transferType = from === ZERO_ADDRESS ? "MINT" : to === ZERO_ADDRESS ? "BURN" : "TRANSFER";
+
+  // Transfer entity is opt-in per deployment / token (see TRANSFER_STORAGE in src/config.ts)
+  if (shouldStoreTransfer(chainId, token, value, decimals)) {
+    context.Transfer.set({
+      id: `${chainId}_${token}_${blockNumber}_${event.logIndex}`,
+      chainId,
+      token,
+      blockNumber,
+      blockTimestamp: ts,
+      logIndex: event.logIndex,
+      txHash: event.transaction.hash,
+      from,
+      to,
+      value,
+      transferType,
+    });
+  }
+
+  await processMovement(context, {
+    chainId,
+    token,
+    decimals,
+    asset,
+    from,
+    to,
+    value,
+    blockNumber,
+    ts,
+    logIndex: event.logIndex,
+    txHash: event.transaction.hash,
+  });
+
+  if (from !== ZERO_ADDRESS) {
+    await spendAllowance(context, {
+      chainId,
+      token,
+      owner: from,
+      value,
+      blockNumber,
+      ts,
+      txHash: event.transaction.hash,
+      logIndex: event.logIndex,
+      txFrom: event.transaction.from,
+      txTo: event.transaction.to,
+    });
+  }
+});
+
+ERC20.Approval.handler(async ({ event, context }) => {
+  await recordApproval(context, {
+    chainId: event.chainId,
+    token: event.srcAddress,
+    owner: event.params.owner,
+    spender: event.params.spender,
+    value: event.params.value,
+    blockNumber: event.block.number,
+    ts: event.block.timestamp,
+    txHash: event.transaction.hash,
+    logIndex: event.logIndex,
+    txFrom: event.transaction.from,
+    txTo: event.transaction.to,
+    txInput: event.transaction.input,
+  });
+});
+
+// Fields of an event that non-Transfer handlers need
+type LogMeta = {
+  chainId: number;
+  srcAddress: string;
+  logIndex: number;
+  block: { number: number; timestamp: number };
+  transaction: { hash: string };
+};
+
+type BlacklistAction = "BLACKLISTED" | "UNBLACKLISTED" | "FUNDS_DESTROYED";
+
+function recordBlacklistEvent(
+  context: HandlerContext,
+  event: LogMeta,
+  account: string,
+  action: BlacklistAction,
+  balance: bigint,
+): void {
+  context.BlacklistEvent.set({
+    id: `${event.chainId}-${event.srcAddress}-${event.block.number}-${event.logIndex}`,
+    chainId: event.chainId,
+    token: event.srcAddress,
+    account,
+    action,
+    balance,
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    txHash: event.transaction.hash,
+  });
+}
+
+/**
+ * Apply a blacklist status change to the Account and to the frozen totals on
+ * TokenSupply and the day's DailySnapshot. Repeated events for an address that
+ * already has the status are recorded but don't change the totals.
+ */
+async function setBlacklistStatus(
+  context: HandlerContext,
+  event: LogMeta,
+  address: string,
+  isBlacklisted: boolean,
+): Promise<void> {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const blockNumber = event.block.number;
+  const ts = event.block.timestamp;
+
+  const account = await context.Account.get(getAccountId(chainId, token, address));
+  const opening = account ? undefined : await getOpeningBalance(context, chainId, token, address, blockNumber);
+  const balance = account?.balance ?? opening!.balance;
+  recordBlacklistEvent(context, event, address, isBlacklisted ? "BLACKLISTED" : "UNBLACKLISTED", balance);
+
+  if ((account?.isBlacklisted ?? false) === isBlacklisted) return;
+
+  const { decimals, asset } = await getOrCreateToken(context, chainId, token);
+  // An account first seen here brings its opening balance into the holder type split
+  const holderTypes = emptyHolderTypeDelta();
+  const accountType = account ? account.accountType : await resolveAccountType(context, chainId, address);
+  if (!account) addHolderTypeChange(holderTypes, accountType, balance, 0n);
+
+  if (account) {
+    context.Account.set({
+      ...account,
+      isBlacklisted,
+      blacklistedTimestamp: isBlacklisted ? ts : undefined,
+    });
+  } else {
+    context.Account.set({
+      id: getAccountId(chainId, token, address),
+      chainId,
+      token,
+      address,
+      balance,
+      totalVolumeIn: 0n,
+      totalVolumeOut: 0n,
+      transfersIn: 0,
+      transfersOut: 0,
+      firstSeenTimestamp: ts,
+      lastActiveTimestamp: ts,
+      balanceUpdatedTimestamp: ts,
+      acquiredTimestamp: ts,
+      isBlacklisted,
+      blacklistedTimestamp: ts,
+      ...getAccountLabel(chainId, address),
+      accountType,
+    });
+    await updateHolderCohort(context, {
+      chainId,
+      token,
+      ts,
+      firstSeenTimestamp: ts,
+      isNewAccount: true,
+      wasHolder: wasHolder(balance, opening),
+      isHolder: balance > 0n,
+    });
+  }
+
+  const supplyId = getSupplyId(chainId, token);
+  const supply = await context.TokenSupply.get(supplyId);
+  const countDelta = isBlacklisted ? 1 : -1;
+  const balanceDelta = isBlacklisted ? balance : -balance;
+  const holderDelta = !wasHolder(balance, opening) && balance > 0n ? 1 : 0;
+  const bootstrapSupply = supply ? undefined : await getOpeningSupply(context, chainId, token, blockNumber);
+  const updatedSupply: TokenSupply = supply
+    ? {
+        ...supply,
+        holderCount: supply.holderCount + holderDelta,
+        frozenAddressCount: supply.frozenAddressCount + countDelta,
+        frozenBalance: supply.frozenBalance + balanceDelta,
+        eoaSupply: supply.eoaSupply + holderTypes.eoaSupply,
+        contractSupply: supply.contractSupply + holderTypes.contractSupply,
+        lastUpdatedBlock: blockNumber,
+        lastUpdatedTimestamp: ts,
+      }
+    : {
+        id: supplyId,
+        chainId,
+        token,
+        totalSupply: bootstrapSupply!.totalSupply,
+        totalSupplyNormalized: normalize(bootstrapSupply!.totalSupply, decimals),
+        totalMinted: 0n,
+        totalBurned: 0n,
+        issuerMinted: 0n,
+        issuerBurned: 0n,
+        bridgeMinted: 0n,
+        bridgeBurned: 0n,
+        allTimeVolume: 0n,
+        holderCount: bootstrapSupply!.holderCount + holderDelta,
+        holderCountIsPartial: bootstrapSupply!.holderCountIsPartial,
+        mintCount: 0,
+        burnCount: 0,
+        transferCount: 0,
+        frozenAddressCount: countDelta,
+        frozenBalance: balanceDelta,
+        ...holderTypes,
+        lastReconciledBlock: undefined,
+        lastReconciledTimestamp: undefined,
+        lastUpdatedBlock: blockNumber,
+        lastUpdatedTimestamp: ts,
+      };
+  context.TokenSupply.set(updatedSupply);
+  // Neither the opening state nor a holder first seen here comes through a movement
+  if (asset && (bootstrapSupply || holderDelta !== 0)) {
+    await addAssetHoldings(context, {
+      asset,
+      chainId,
+      ts,
+      totalSupply: normalize(bootstrapSupply?.totalSupply ?? 0n, decimals),
+      holderCount: (bootstrapSupply?.holderCount ?? 0) + holderDelta,
+    });
+  }
+
+  // Daily frozen totals (no transfer activity to add)
+  const dayId = Math.floor(ts / DAY);
+  const daily = await context.DailySnapshot.get(`${chainId}-${token}-${dayId}`);
+  if (!daily && supply) await fillDailyGap(context, supply, dayId, decimals);
+  // An account first seen here brings its opening balance into the buckets
+  const opened: AgeChange = { oldBalance: 0n, newBalance: balance, oldAcquiredTimestamp: ts, newAcquiredTimestamp: ts };
+  const { thresholds, dormantSupply } = await updateDormancy(context, {
+    chainId,
+    token,
+    ts,
+    changes: account ? [] : [opened],
+  });
+  if (daily) {
+    context.DailySnapshot.set({
+      ...daily,
+      newAddressCount: daily.newAddressCount + (account ? 0 : 1),
+      holderCount: updatedSupply.holderCount,
+      frozenAddressCount: updatedSupply.frozenAddressCount,
+      frozenBalance: updatedSupply.frozenBalance,
+      eoaSupply: updatedSupply.eoaSupply,
+      contractSupply: updatedSupply.contractSupply,
+      dormancyThresholds: thresholds,
+      dormantSupply,
+    });
+  } else {
+    // Concentration is unchanged since the previous day
+    const previousDay = await context.DailySnapshot.get(`${chainId}-${token}-${dayId - 1}`);
+    const previousTotalSupply = supply?.totalSupply ?? bootstrapSupply!.totalSupply;
+    context.DailySnapshot.set({
+      ...emptyDailySnapshot(updatedSupply, dayId, previousTotalSupply, decimals, previousDay),
+      openingHolderCount: supply?.holderCount ?? bootstrapSupply!.holderCount,
+      newAddressCount: account ? 0 : 1,
+      dormancyThresholds: thresholds,
+      dormantSupply,
+    });
+  }
+}
+
+// USDC (FiatToken) blacklist
+ERC20.Blacklisted.handler(async ({ event, context }) => {
+  await setBlacklistStatus(context, event, event.params._account, true);
+});
+
+ERC20.UnBlacklisted.handler(async ({ event, context }) => {
+  await setBlacklistStatus(context, event, event.params._account, false);
+});
+
+// USDT (TetherToken) blacklist
+ERC20.AddedBlackList.handler(async ({ event, context }) => {
+  await setBlacklistStatus(context, event, event.params._user, true);
+});
+
+ERC20.RemovedBlackList.handler(async ({ event, context }) => {
+  await setBlacklistStatus(context, event, event.params._user, false);
+});
+
+// USDT zeroes the blacklisted balance and reduces totalSupply without a Transfer
+// log, so the destroyed funds are indexed as a burn.
+ERC20.DestroyedBlackFunds.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const user = event.params._blackListedUser;
+  const value = event.params._balance;
+
+  const { decimals, asset } = await getOrCreateToken(context, chainId, token);
+
+  await processMovement(context, {
+    chainId,
+    token,
+    decimals,
+    asset,
+    from: user,
+    to: ZERO_ADDRESS,
+    value,
+    blockNumber: event.block.number,
+    ts: event.block.timestamp,
+    logIndex: event.logIndex,
+    txHash: event.transaction.hash,
+  });
+
+  recordBlacklistEvent(context, event, user, "FUNDS_DESTROYED", value);
+});
+
+function getMinterId(chainId: number, token: string, minter: string): string {
+  return `${chainId}-${token}-${minter}`;
+}
+
+function newMinter(chainId: number, token: string, address: string, ts: number): Minter {
+  return {
+    id: getMinterId(chainId, token, address),
+    chainId,
+    token,
+    address,
+    isActive: false,
+    configuredAllowance: 0n,
+    remainingAllowance: 0n,
+    totalMinted: 0n,
+    totalBurned: 0n,
+    mintCount: 0,
+    burnCount: 0,
+    configuredTimestamp: undefined,
+    lastActiveTimestamp: ts,
+  };
+}
+
+/**
+ * Attribute a mint or burn to the minter that issued it: running totals on
+ * Minter and the day's MinterDailyIssuance. Supply itself is counted by
+ * processMovement, so this only adds the per-minter breakdown.
+ */
+async function recordMinterActivity(
+  context: HandlerContext,
+  event: LogMeta,
+  address: string,
+  mintVal: bigint,
+  burnVal: bigint,
+): Promise<void> {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const ts = event.block.timestamp;
+  const isMint = mintVal > 0n;
+
+  const minter =
+    (await context.Minter.get(getMinterId(chainId, token, address))) ??
+    newMinter(chainId, token, address, ts);
+  context.Minter.set({
+    ...minter,
+    // FiatToken spends allowance on mint; burns don't restore it
+    remainingAllowance: minter.remainingAllowance - mintVal,
+    totalMinted: minter.totalMinted + mintVal,
+    totalBurned: minter.totalBurned + burnVal,
+    mintCount: minter.mintCount + (isMint ? 1 : 0),
+    burnCount: minter.burnCount + (isMint ? 0 : 1),
+    lastActiveTimestamp: ts,
+  });
+
+  const dayId = Math.floor(ts / DAY);
+  const issuanceId = `${chainId}-${token}-${address}-${dayId}`;
+  const issuance = await context.MinterDailyIssuance.get(issuanceId);
+  if (issuance) {
+    context.MinterDailyIssuance.set({
+      ...issuance,
+      mintVolume: issuance.mintVolume + mintVal,
+      burnVolume: issuance.burnVolume + burnVal,
+      mintCount: issuance.mintCount + (isMint ? 1 : 0),
+      burnCount: issuance.burnCount + (isMint ? 0 : 1),
+    });
+  } else {
+    context.MinterDailyIssuance.set({
+      id: issuanceId,
+      chainId,
+      token,
+      minter: address,
+      dayId,
+      mintVolume: mintVal,
+      burnVolume: burnVal,
+      mintCount: isMint ? 1 : 0,
+      burnCount: isMint ? 0 : 1,
+    });
+  }
+}
+
+/**
+ * USDT Issue/Redeem mint to and burn from the owner's balance without a
+ * Transfer log. Index them as movements from/to ZERO_ADDRESS, like zero-address
+ * transfers on other tokens.
+ */
+async function processOwnerSupplyChange(
+  context: HandlerContext,
+  event: LogMeta,
+  amount: bigint,
+  isIssue: boolean,
+): Promise<void> {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const blockNumber = event.block.number;
+
+  const { decimals, asset } = await getOrCreateToken(context, chainId, token);
+  const owner = await context.effect(getContractOwner, { chainId, address: token, blockNumber });
+
+  await processMovement(context, {
+    chainId,
+    token,
+    decimals,
+    asset,
+    from: isIssue ? ZERO_ADDRESS : owner,
+    to: isIssue ? owner : ZERO_ADDRESS,
+    value: amount,
+    blockNumber,
+    ts: event.block.timestamp,
+    logIndex: event.logIndex,
+    txHash: event.transaction.hash,
+  });
+
+  // The owner is USDT's only issuer
+  await recordMinterActivity(context, event, owner, isIssue ? amount : 0n, isIssue ? 0n : amount);
+}
+
+ERC20.Issue.handler(async ({ event, context }) => {
+  await processOwnerSupplyChange(context, event, event.params.amount, true);
+});
+
+ERC20.Redeem.handler(async ({ event, context }) => {
+  await processOwnerSupplyChange(context, event, event.params.amount, false);
+});
+
+// --- USDC (FiatToken) minters ---
+// Mint/Burn are each followed by a zero-address Transfer in the same tx, which
+// updates supply; these handlers only keep the per-minter registry.
+
+ERC20.MinterConfigured.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const address = event.params.minter;
+  const ts = event.block.timestamp;
+
+  const minter =
+    (await context.Minter.get(getMinterId(chainId, token, address))) ??
+    newMinter(chainId, token, address, ts);
+  context.Minter.set({
+    ...minter,
+    isActive: true,
+    configuredAllowance: event.params.minterAllowedAmount,
+    remainingAllowance: event.params.minterAllowedAmount,
+    configuredTimestamp: ts,
+    lastActiveTimestamp: ts,
+  });
+});
+
+ERC20.MinterRemoved.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const token = event.srcAddress;
+  const address = event.params.oldMinter;
+  const ts = event.block.timestamp;
+
+  const minter =
+    (await context.Minter.get(getMinterId(chainId, token, address))) ??
+    newMinter(chainId, token, address, ts);
+  context.Minter.set({
+    ...minter,
+    isActive: false,
+    remainingAllowance: 0n,
+    lastActiveTimestamp: ts,
+  });
+});
+
+ERC20.Mint.handler(async ({ event, context }) => {
+  await recordMinterActivity(context, event, event.params.minter, event.params.amount, 0n);
+});
+
+ERC20.Burn.handler(async ({ event, context }) => {
+  await recordMinterActivity(context, event, event.params.burner, 0n, event.params.amount);
 });
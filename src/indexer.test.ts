@@ -1,12 +1,77 @@
-import { describe, it, expect } from "vitest";
-import { TestHelpers, createTestIndexer, type Account } from "generated";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, afterAll, afterEach, beforeAll, vi } from "vitest";
+import { TestHelpers, BigDecimal, createTestIndexer, type Account } from "generated";
+import { type AlertWorkerConfig, deliverPending } from "./alertWorker.js";
+import { addToSketch, emptySketch, estimateCardinality, mergeSketches } from "./hyperLogLog.js";
+import { trackUniques } from "./periods.js";
+import { decodeAccountType } from "./rpc.js";
 import "./handlers/ERC20.js";
+import "./handlers/CCTP.js";
 
-const { MockDb, ERC20, Addresses } = TestHelpers;
+const { MockDb, ERC20, TokenMessenger, MessageTransmitter, Addresses } = TestHelpers;
 
 const USDC_ADDRESS = "0x078D782b760474a361dDA0AF3839290b0EF57AD6";
 const MOCK_CHAIN_ID = 130;
 
+type MockAddress = (typeof Addresses.mockAddresses)[number];
+
+type TransferOptions = {
+  token?: MockAddress;
+  chainId?: number;
+  /** Day the block falls in; its timestamp is dayId * 86400 + blockNumber. */
+  dayId?: number;
+  timestamp?: number;
+  logIndex?: number;
+  transaction?: { hash?: string; from?: MockAddress; to?: MockAddress; input?: string };
+};
+
+/** A USDC transfer on the mock chain at `blockNumber`, unless options say otherwise. */
+const transferAt = (
+  blockNumber: number,
+  from: MockAddress,
+  to: MockAddress,
+  value: bigint,
+  { token = USDC_ADDRESS, chainId = MOCK_CHAIN_ID, dayId, timestamp, logIndex, transaction }: TransferOptions = {}
+) => {
+  const ts = timestamp ?? (dayId === undefined ? undefined : dayId * 86400 + blockNumber);
+  return ERC20.Transfer.createMockEvent({
+    from,
+    to,
+    value,
+    mockEventData: {
+      srcAddress: token,
+      chainId,
+      ...(logIndex !== undefined && { logIndex }),
+      block: ts === undefined ? { number: blockNumber } : { number: blockNumber, timestamp: ts },
+      ...(transaction && { transaction }),
+    },
+  });
+};
+
+/** A holder on the mock chain that received its balance in one transfer. */
+const account = (fields: Pick<Account, "token" | "address" | "balance"> & Partial<Account>): Account => ({
+  id: `${MOCK_CHAIN_ID}-${fields.token}-${fields.address}`,
+  chainId: MOCK_CHAIN_ID,
+  totalVolumeIn: fields.balance,
+  totalVolumeOut: 0n,
+  transfersIn: 1,
+  transfersOut: 0,
+  firstSeenTimestamp: 1000000,
+  lastActiveTimestamp: 1000000,
+  balanceUpdatedTimestamp: 1000000,
+  acquiredTimestamp: 1000000,
+  isBlacklisted: false,
+  blacklistedTimestamp: undefined,
+  labelCategory: undefined,
+  labelName: undefined,
+  accountType: undefined,
+  ...fields,
+});
+
 // Integration tests require network access to HyperSync.
 // Run with: INTEGRATION=1 pnpm test
 describe.runIf(process.env.INTEGRATION)(
@@ -28,18 +93,18 @@ describe.runIf(process.env.INTEGRATION)(
 
         expect(result.changes.length).toBeGreaterThan(0);
 
-        // --- COMMENTED OUT: Transfer entity removed ---
-        // const firstChange = result.changes[0]!;
-        // const transfers = firstChange.Transfer?.sets;
-        // if (transfers) {
-        //   expect(transfers.length).toBeGreaterThan(0);
-        //   expect(transfers[0]!.chainId).toBe(130);
-        //   expect(transfers[0]!.token).toBeDefined();
-        //   expect(transfers[0]!.txHash).toBeDefined();
-        //   expect(["TRANSFER", "MINT", "BURN"]).toContain(
-        //     transfers[0]!.transferType
-        //   );
-        // }
+        // Transfer rows only exist when TRANSFER_STORAGE is enabled
+        const firstChange = result.changes[0]!;
+        const transfers = firstChange.Transfer?.sets;
+        if (transfers) {
+          expect(transfers.length).toBeGreaterThan(0);
+          expect(transfers[0]!.chainId).toBe(130);
+          expect(transfers[0]!.token).toBeDefined();
+          expect(transfers[0]!.txHash).toBeDefined();
+          expect(["TRANSFER", "MINT", "BURN"]).toContain(
+            transfers[0]!.transferType
+          );
+        }
       },
       60_000
     );
@@ -67,6 +132,13 @@ describe("Unit: Transfer handler", () => {
       firstSeenTimestamp: 1000000,
       // lastActiveBlock: 100,   // COMMENTED OUT: field removed from schema
       lastActiveTimestamp: 1000000,
+      balanceUpdatedTimestamp: 1000000,
+      acquiredTimestamp: 1000000,
+      isBlacklisted: false,
+      blacklistedTimestamp: undefined,
+      labelCategory: undefined,
+      labelName: undefined,
+      accountType: undefined,
     };
 
     const mockDb = mockDbEmpty.entities.Account.set(mockAccountEntity);
@@ -99,13 +171,9 @@ describe("Unit: Transfer handler", () => {
     expect(receiverAccount?.totalVolumeIn).toBe(3000000n);
     expect(receiverAccount?.transfersIn).toBe(1);
 
-    // --- COMMENTED OUT: Transfer entity removed ---
-    // const transferId = `${MOCK_CHAIN_ID}_${USDC_ADDRESS}_${mockTransfer.block.number}_${mockTransfer.logIndex}`;
-    // const transferEntity = result.entities.Transfer.get(transferId);
-    // expect(transferEntity).toBeDefined();
-    // expect(transferEntity?.transferType).toBe("TRANSFER");
-    // expect(transferEntity?.value).toBe(3000000n);
-    // expect(transferEntity?.token).toBe(USDC_ADDRESS);
+    // Transfer rows are off by default (TRANSFER_STORAGE=none)
+    const transferId = `${MOCK_CHAIN_ID}_${USDC_ADDRESS}_${mockTransfer.block.number}_${mockTransfer.logIndex}`;
+    expect(result.entities.Transfer.get(transferId)).toBeUndefined();
 
     // TokenSupply — holderCount should be 1 (sender kept balance, receiver is new non-zero holder)
     const supply = result.entities.TokenSupply.get(
@@ -115,15 +183,6 @@ describe("Unit: Transfer handler", () => {
     expect(supply?.allTimeVolume).toBe(3000000n);
     expect(supply?.holderCount).toBe(1);
 
-    // --- COMMENTED OUT: HourlySnapshot removed ---
-    // const hourId = Math.floor(mockTransfer.block.timestamp / 3600);
-    // const hourly = result.entities.HourlySnapshot.get(
-    //   `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${hourId}`
-    // );
-    // expect(hourly?.transferCount).toBe(1);
-    // expect(hourly?.volume).toBe(3000000n);
-    // expect(hourly?.netMintBurnFlow).toBe(0n);
-
     // DailySnapshot — unique addresses
     const dayId = Math.floor(mockTransfer.block.timestamp / 86400);
     const daily = result.entities.DailySnapshot.get(
@@ -133,24 +192,7 @@ describe("Unit: Transfer handler", () => {
     expect(daily?.dailyVolume).toBe(3000000n);
     expect(daily?.uniqueActiveAddresses).toBe(2);
     // expect(daily?.netMintBurnFlow).toBe(0n);         // COMMENTED OUT: field removed
-    // expect(daily?.newAddressCount).toBe(1);           // COMMENTED OUT: field removed
-
-    // --- COMMENTED OUT: WeeklySnapshot removed ---
-    // const weekId = Math.floor(mockTransfer.block.timestamp / 604800);
-    // const weekly = result.entities.WeeklySnapshot.get(
-    //   `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${weekId}`
-    // );
-    // expect(weekly?.weeklyTransferCount).toBe(1);
-    // expect(weekly?.uniqueActiveAddresses).toBe(2);
-
-    // --- COMMENTED OUT: CrossTokenDailySnapshot removed ---
-    // const crossDaily = result.entities.CrossTokenDailySnapshot.get(
-    //   `${MOCK_CHAIN_ID}-${dayId}`
-    // );
-    // expect(crossDaily).toBeDefined();
-    // expect(crossDaily?.totalVolume).toBe(3000000n);
-    // expect(crossDaily?.totalTransferCount).toBe(1);
-    // expect(crossDaily?.netMintBurnFlow).toBe(0n);
+    expect(daily?.newAddressCount).toBe(1);
 
     // AccountBalanceSnapshot for sender
     const senderSnap = result.entities.AccountBalanceSnapshot.get(
@@ -184,10 +226,6 @@ describe("Unit: Transfer handler", () => {
       mockDb,
     });
 
-    // --- COMMENTED OUT: Transfer entity removed ---
-    // const transferId = `${MOCK_CHAIN_ID}_${USDC_ADDRESS}_${mockMint.block.number}_${mockMint.logIndex}`;
-    // expect(result.entities.Transfer.get(transferId)?.transferType).toBe("MINT");
-
     // No zero address account
     expect(
       result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${zeroAddress}`)
@@ -200,6 +238,11 @@ describe("Unit: Transfer handler", () => {
     expect(receiverAccount?.balance).toBe(1000000n);
     expect(receiverAccount?.totalVolumeIn).toBe(1000000n);
 
+    // Token metadata comes from the static registry, no RPC read needed
+    const tokenEntity = result.entities.Token.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}`);
+    expect(tokenEntity?.symbol).toBe("USDC");
+    expect(tokenEntity?.decimals).toBe(6);
+
     // TokenSupply — holderCount = 1
     const supply = result.entities.TokenSupply.get(
       `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`
@@ -208,14 +251,7 @@ describe("Unit: Transfer handler", () => {
     expect(supply?.totalMinted).toBe(1000000n);
     expect(supply?.allTimeVolume).toBe(1000000n);
     expect(supply?.holderCount).toBe(1);
-
-    // --- COMMENTED OUT: HourlySnapshot removed ---
-    // const hourId = Math.floor(mockMint.block.timestamp / 3600);
-    // const hourly = result.entities.HourlySnapshot.get(
-    //   `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${hourId}`
-    // );
-    // expect(hourly?.mintVolume).toBe(1000000n);
-    // expect(hourly?.netMintBurnFlow).toBe(1000000n);
+    expect(supply?.totalSupplyNormalized.toString()).toBe("1");
 
     // Balance snapshot for receiver only (no sender snapshot for mints)
     const receiverSnap = result.entities.AccountBalanceSnapshot.get(
@@ -244,6 +280,13 @@ describe("Unit: Transfer handler", () => {
       firstSeenTimestamp: 1000000,
       // lastActiveBlock: 100,   // COMMENTED OUT: field removed from schema
       lastActiveTimestamp: 1000000,
+      balanceUpdatedTimestamp: 1000000,
+      acquiredTimestamp: 1000000,
+      isBlacklisted: false,
+      blacklistedTimestamp: undefined,
+      labelCategory: undefined,
+      labelName: undefined,
+      accountType: undefined,
     });
 
     const mockBurn = ERC20.Transfer.createMockEvent({
@@ -258,10 +301,6 @@ describe("Unit: Transfer handler", () => {
       mockDb,
     });
 
-    // --- COMMENTED OUT: Transfer entity removed ---
-    // const transferId = `${MOCK_CHAIN_ID}_${USDC_ADDRESS}_${mockBurn.block.number}_${mockBurn.logIndex}`;
-    // expect(result.entities.Transfer.get(transferId)?.transferType).toBe("BURN");
-
     // No zero address account
     expect(
       result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${zeroAddress}`)
@@ -279,15 +318,6 @@ describe("Unit: Transfer handler", () => {
     expect(supply?.totalBurned).toBe(2000000n);
     expect(supply?.allTimeVolume).toBe(2000000n);
 
-    // --- COMMENTED OUT: WeeklySnapshot removed ---
-    // const weekId = Math.floor(mockBurn.block.timestamp / 604800);
-    // const weekly = result.entities.WeeklySnapshot.get(
-    //   `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${weekId}`
-    // );
-    // expect(weekly?.weeklyBurnVolume).toBe(2000000n);
-    // expect(weekly?.netMintBurnFlow).toBe(-2000000n);
-    // expect(weekly?.uniqueActiveAddresses).toBe(1);
-
     // Balance snapshot for sender (no receiver snapshot for burns)
     const senderSnap = result.entities.AccountBalanceSnapshot.get(
       `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${sender}-${mockBurn.block.number}-${mockBurn.logIndex}`
@@ -295,4 +325,2005 @@ describe("Unit: Transfer handler", () => {
     expect(senderSnap?.balance).toBe(3000000n);
     expect(senderSnap?.balanceChange).toBe(-2000000n);
   });
+
+  it("Round-number boundaries and normalized amounts follow token decimals", async () => {
+    const daiAddress = Addresses.mockAddresses[5]!;
+    const sender = Addresses.mockAddresses[0]!;
+    const receiver = Addresses.mockAddresses[1]!;
+    const oneToken = 10n ** 18n;
+
+    const mockDb = MockDb.createMockDb()
+      .entities.Token.set({
+        id: `${MOCK_CHAIN_ID}-${daiAddress}`,
+        chainId: MOCK_CHAIN_ID,
+        address: daiAddress,
+        symbol: "DAI",
+        name: "Dai Stablecoin",
+        decimals: 18,
+        issuer: "MakerDAO",
+        pegCurrency: "USD",
+        asset: "DAI",
+      })
+      .entities.Account.set(account({ token: daiAddress, address: receiver, balance: 9_999n * oneToken + oneToken / 2n }));
+
+    // 1 DAI is well under the 0.1% change threshold, but crosses 10k tokens
+    const mockTransfer = transferAt(1, sender, receiver, oneToken, { token: daiAddress });
+
+    const result = await ERC20.Transfer.processEvent({
+      event: mockTransfer,
+      mockDb,
+    });
+
+    const receiverSnap = result.entities.AccountBalanceSnapshot.get(
+      `${MOCK_CHAIN_ID}-${daiAddress}-${receiver}-${mockTransfer.block.number}-${mockTransfer.logIndex}`
+    );
+    expect(receiverSnap?.balance).toBe(10_000n * oneToken + oneToken / 2n);
+
+    const dayId = Math.floor(mockTransfer.block.timestamp / 86400);
+    const daily = result.entities.DailySnapshot.get(
+      `${MOCK_CHAIN_ID}-${daiAddress}-${dayId}`
+    );
+    expect(daily?.dailyVolumeNormalized.toString()).toBe("1");
+  });
+});
+
+describe("Unit: Transfer storage policy", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const sender = Addresses.mockAddresses[0]!;
+  const receiver = Addresses.mockAddresses[1]!;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const processTransfer = async (from: typeof sender, to: typeof sender, value: bigint) => {
+    const event = transferAt(1, from, to, value);
+    const result = await ERC20.Transfer.processEvent({
+      event,
+      mockDb: MockDb.createMockDb(),
+    });
+    return result.entities.Transfer.get(
+      `${MOCK_CHAIN_ID}_${USDC_ADDRESS}_${event.block.number}_${event.logIndex}`
+    );
+  };
+
+  it("all: stores every transfer with its classification and txHash", async () => {
+    vi.stubEnv("TRANSFER_STORAGE", "all");
+
+    const mint = await processTransfer(zeroAddress, receiver, 1n);
+    expect(mint?.transferType).toBe("MINT");
+    expect(mint?.txHash).toBeDefined();
+
+    const burn = await processTransfer(sender, zeroAddress, 1n);
+    expect(burn?.transferType).toBe("BURN");
+
+    const transfer = await processTransfer(sender, receiver, 1n);
+    expect(transfer?.transferType).toBe("TRANSFER");
+    expect(transfer?.value).toBe(1n);
+  });
+
+  it("large: stores only transfers at or above the whole-token threshold", async () => {
+    vi.stubEnv("TRANSFER_STORAGE", "large:1000");
+
+    // USDC has 6 decimals, so the threshold is 1000 * 10^6 base units
+    expect(await processTransfer(sender, receiver, 999_999_999n)).toBeUndefined();
+    expect((await processTransfer(sender, receiver, 1_000_000_000n))?.value).toBe(1_000_000_000n);
+  });
+
+  it("per-token override takes precedence over the deployment default", async () => {
+    vi.stubEnv("TRANSFER_STORAGE", "none");
+    vi.stubEnv("TRANSFER_STORAGE_OVERRIDES", `${MOCK_CHAIN_ID}-${USDC_ADDRESS}=all`);
+
+    expect(await processTransfer(sender, receiver, 1n)).toBeDefined();
+  });
+});
+
+describe("Unit: Blacklist handlers", () => {
+  const USDT0_ADDRESS = "0x9151434b16b9763660705744891fA906F660EcC5";
+  const holder = Addresses.mockAddresses[0]!;
+
+  const makeAccount = (token: string, balance: bigint, isBlacklisted: boolean) =>
+    account({ token, address: holder, balance, isBlacklisted, blacklistedTimestamp: isBlacklisted ? 1000000 : undefined });
+
+  it("USDC Blacklisted freezes the account balance", async () => {
+    const mockDb = MockDb.createMockDb().entities.Account.set(
+      makeAccount(USDC_ADDRESS, 5000000n, false)
+    );
+
+    const event = ERC20.Blacklisted.createMockEvent({
+      _account: holder,
+      mockEventData: { srcAddress: USDC_ADDRESS, chainId: MOCK_CHAIN_ID },
+    });
+    const result = await ERC20.Blacklisted.processEvent({ event, mockDb });
+
+    const account = result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${holder}`);
+    expect(account?.isBlacklisted).toBe(true);
+    expect(account?.blacklistedTimestamp).toBe(event.block.timestamp);
+
+    const supply = result.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`);
+    expect(supply?.frozenAddressCount).toBe(1);
+    expect(supply?.frozenBalance).toBe(5000000n);
+
+    const dayId = Math.floor(event.block.timestamp / 86400);
+    const daily = result.entities.DailySnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`);
+    expect(daily?.frozenAddressCount).toBe(1);
+    expect(daily?.frozenBalance).toBe(5000000n);
+    expect(daily?.dailyTransferCount).toBe(0);
+
+    const blacklistEvent = result.entities.BlacklistEvent.get(
+      `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${event.block.number}-${event.logIndex}`
+    );
+    expect(blacklistEvent?.action).toBe("BLACKLISTED");
+    expect(blacklistEvent?.balance).toBe(5000000n);
+  });
+
+  it("USDT DestroyedBlackFunds burns the frozen balance without a Transfer", async () => {
+    const mockDb = MockDb.createMockDb()
+      .entities.Account.set(makeAccount(USDT0_ADDRESS, 5000000n, true))
+      .entities.TokenSupply.set({
+        id: `${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-supply`,
+        chainId: MOCK_CHAIN_ID,
+        token: USDT0_ADDRESS,
+        totalSupply: 10000000n,
+        totalSupplyNormalized: new BigDecimal(10),
+        totalMinted: 10000000n,
+        totalBurned: 0n,
+        issuerMinted: 10000000n,
+        issuerBurned: 0n,
+        bridgeMinted: 0n,
+        bridgeBurned: 0n,
+        allTimeVolume: 10000000n,
+        holderCount: 2,
+        holderCountIsPartial: false,
+        mintCount: 1,
+        burnCount: 0,
+        transferCount: 2,
+        frozenAddressCount: 1,
+        frozenBalance: 5000000n,
+        eoaSupply: 0n,
+        contractSupply: 0n,
+        eoaVolume: 0n,
+        contractVolume: 0n,
+        lastReconciledBlock: undefined,
+        lastReconciledTimestamp: undefined,
+        lastUpdatedBlock: 1,
+        lastUpdatedTimestamp: 1000000,
+      });
+
+    const event = ERC20.DestroyedBlackFunds.createMockEvent({
+      _blackListedUser: holder,
+      _balance: 5000000n,
+      mockEventData: { srcAddress: USDT0_ADDRESS, chainId: MOCK_CHAIN_ID },
+    });
+    const result = await ERC20.DestroyedBlackFunds.processEvent({ event, mockDb });
+
+    expect(
+      result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-${holder}`)?.balance
+    ).toBe(0n);
+
+    const supply = result.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-supply`);
+    expect(supply?.totalSupply).toBe(5000000n);
+    expect(supply?.totalBurned).toBe(5000000n);
+    expect(supply?.holderCount).toBe(1);
+    expect(supply?.frozenAddressCount).toBe(1);
+    expect(supply?.frozenBalance).toBe(0n);
+
+    const blacklistEvent = result.entities.BlacklistEvent.get(
+      `${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-${event.block.number}-${event.logIndex}`
+    );
+    expect(blacklistEvent?.action).toBe("FUNDS_DESTROYED");
+  });
+});
+
+describe("Unit: USDT Issue/Redeem", () => {
+  const USDT0_ADDRESS = "0x9151434b16b9763660705744891fA906F660EcC5";
+  const owner = Addresses.mockAddresses[2]!;
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+
+  // Mocked RPC: every eth_call answers with the owner address
+  const stubOwnerRpc = () => {
+    vi.stubEnv(`RPC_URL_${MOCK_CHAIN_ID}`, "http://rpc.test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          jsonrpc: "2.0",
+          id: 1,
+          result: `0x${"0".repeat(24)}${owner.slice(2).toLowerCase()}`,
+        })
+      )
+    );
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("Issue credits the owner like a zero-address mint", async () => {
+    stubOwnerRpc();
+
+    const issue = ERC20.Issue.createMockEvent({
+      amount: 1000000n,
+      mockEventData: { srcAddress: USDT0_ADDRESS, chainId: MOCK_CHAIN_ID },
+    });
+    const issued = await ERC20.Issue.processEvent({ event: issue, mockDb: MockDb.createMockDb() });
+
+    // Same block as the Issue, so the two TokenSupply rows compare equal
+    const mint = transferAt(issue.block.number, zeroAddress, owner, 1000000n, { token: USDT0_ADDRESS });
+    const minted = await ERC20.Transfer.processEvent({ event: mint, mockDb: MockDb.createMockDb() });
+
+    const accountId = `${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-${owner}`;
+    expect(issued.entities.Account.get(accountId)?.balance).toBe(1000000n);
+
+    const supplyId = `${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-supply`;
+    expect(issued.entities.TokenSupply.get(supplyId)).toEqual(minted.entities.TokenSupply.get(supplyId));
+    expect(issued.entities.TokenSupply.get(supplyId)?.totalMinted).toBe(1000000n);
+    expect(issued.entities.TokenSupply.get(supplyId)?.mintCount).toBe(1);
+
+    // The owner shows up in the minter registry
+    expect(issued.entities.Minter.get(accountId)?.totalMinted).toBe(1000000n);
+
+    const dayId = Math.floor(issue.block.timestamp / 86400);
+    expect(
+      issued.entities.DailySnapshot.get(`${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-${dayId}`)?.endOfDaySupply
+    ).toBe(1000000n);
+  });
+
+  it("Redeem debits the owner like a zero-address burn", async () => {
+    stubOwnerRpc();
+
+    const mockDb = MockDb.createMockDb().entities.Account.set(
+      account({ token: USDT0_ADDRESS, address: owner, balance: 5000000n })
+    );
+
+    const redeem = ERC20.Redeem.createMockEvent({
+      amount: 2000000n,
+      mockEventData: { srcAddress: USDT0_ADDRESS, chainId: MOCK_CHAIN_ID },
+    });
+    const result = await ERC20.Redeem.processEvent({ event: redeem, mockDb });
+
+    expect(
+      result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-${owner}`)?.balance
+    ).toBe(3000000n);
+
+    const supply = result.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDT0_ADDRESS}-supply`);
+    expect(supply?.totalBurned).toBe(2000000n);
+    expect(supply?.burnCount).toBe(1);
+  });
+});
+
+describe("Unit: Minter registry", () => {
+  const minter = Addresses.mockAddresses[3]!;
+  const receiver = Addresses.mockAddresses[4]!;
+  const minterId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${minter}`;
+
+  it("Tracks allowance, issuance and removal per minter", async () => {
+    const configured = await ERC20.MinterConfigured.processEvent({
+      event: ERC20.MinterConfigured.createMockEvent({
+        minter,
+        minterAllowedAmount: 10000000n,
+        mockEventData: { srcAddress: USDC_ADDRESS, chainId: MOCK_CHAIN_ID },
+      }),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    const mint = ERC20.Mint.createMockEvent({
+      minter,
+      to: receiver,
+      amount: 4000000n,
+      mockEventData: { srcAddress: USDC_ADDRESS, chainId: MOCK_CHAIN_ID },
+    });
+    const minted = await ERC20.Mint.processEvent({ event: mint, mockDb: configured });
+
+    const burned = await ERC20.Burn.processEvent({
+      event: ERC20.Burn.createMockEvent({
+        burner: minter,
+        amount: 1000000n,
+        mockEventData: { srcAddress: USDC_ADDRESS, chainId: MOCK_CHAIN_ID },
+      }),
+      mockDb: minted,
+    });
+
+    const active = burned.entities.Minter.get(minterId);
+    expect(active?.isActive).toBe(true);
+    expect(active?.configuredAllowance).toBe(10000000n);
+    expect(active?.remainingAllowance).toBe(6000000n);
+    expect(active?.totalMinted).toBe(4000000n);
+    expect(active?.totalBurned).toBe(1000000n);
+
+    const dayId = Math.floor(mint.block.timestamp / 86400);
+    const issuance = burned.entities.MinterDailyIssuance.get(`${minterId}-${dayId}`);
+    expect(issuance?.mintVolume).toBe(4000000n);
+    expect(issuance?.burnVolume).toBe(1000000n);
+    expect(issuance?.mintCount).toBe(1);
+    expect(issuance?.burnCount).toBe(1);
+
+    // Minter bookkeeping doesn't touch supply; the accompanying Transfer does
+    expect(burned.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`)).toBeUndefined();
+
+    const removed = await ERC20.MinterRemoved.processEvent({
+      event: ERC20.MinterRemoved.createMockEvent({
+        oldMinter: minter,
+        mockEventData: { srcAddress: USDC_ADDRESS, chainId: MOCK_CHAIN_ID },
+      }),
+      mockDb: burned,
+    });
+    expect(removed.entities.Minter.get(minterId)?.isActive).toBe(false);
+    expect(removed.entities.Minter.get(minterId)?.totalMinted).toBe(4000000n);
+  });
+});
+
+describe("Unit: Period snapshots", () => {
+  const USDT0_ADDRESS = "0x9151434b16b9763660705744891fA906F660EcC5";
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const sender = Addresses.mockAddresses[0]!;
+  const receiver = Addresses.mockAddresses[1]!;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Only DailySnapshot is written by default", async () => {
+    const event = transferAt(1, sender, receiver, 1n);
+    const result = await ERC20.Transfer.processEvent({ event, mockDb: MockDb.createMockDb() });
+
+    const hourId = Math.floor(event.block.timestamp / 3600);
+    expect(
+      result.entities.PeriodSnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-HOUR-${hourId}`)
+    ).toBeUndefined();
+  });
+
+  it("Enabled periods roll up mint/burn flow, uniques and blocks", async () => {
+    vi.stubEnv("PERIOD_SNAPSHOTS", "HOUR,WEEK,CHAIN:DAY");
+
+    const mint = transferAt(1, zeroAddress, receiver, 3000000n);
+    const afterMint = await ERC20.Transfer.processEvent({ event: mint, mockDb: MockDb.createMockDb() });
+
+    // Same receiver on another token: one more transfer, no new chain-wide unique
+    const otherTokenMint = transferAt(2, zeroAddress, receiver, 2000000n, { token: USDT0_ADDRESS });
+    const result = await ERC20.Transfer.processEvent({ event: otherTokenMint, mockDb: afterMint });
+
+    const hourId = Math.floor(mint.block.timestamp / 3600);
+    const hourly = result.entities.PeriodSnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-HOUR-${hourId}`);
+    expect(hourly?.transferCount).toBe(1);
+    expect(hourly?.mintVolume).toBe(3000000n);
+    expect(hourly?.mintVolumeNormalized.toString()).toBe("3");
+    expect(hourly?.netMintBurnFlow).toBe(3000000n);
+    expect(hourly?.endOfPeriodSupply).toBe(3000000n);
+    expect(hourly?.velocity?.toString()).toBe("1");
+    expect(hourly?.firstBlockOfPeriod).toBe(mint.block.number);
+
+    const weekId = Math.floor(mint.block.timestamp / 604800);
+    const weekly = result.entities.PeriodSnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-WEEK-${weekId}`);
+    expect(weekly?.uniqueActiveAddresses).toBe(1);
+
+    const dayId = Math.floor(mint.block.timestamp / 86400);
+    const crossDaily = result.entities.PeriodSnapshot.get(`${MOCK_CHAIN_ID}-all-DAY-${dayId}`);
+    expect(crossDaily?.transferCount).toBe(2);
+    expect(crossDaily?.volume).toBeUndefined();
+    expect(crossDaily?.volumeNormalized.toString()).toBe("5");
+    expect(crossDaily?.uniqueActiveAddresses).toBe(1);
+    expect(crossDaily?.endOfPeriodSupply).toBeUndefined();
+  });
+
+  it("Cross-token rollups add tokens of different decimals in whole tokens", async () => {
+    vi.stubEnv("PERIOD_SNAPSHOTS", "CHAIN:DAY");
+    const MAINNET_USDC_ADDRESS = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+    const DAI_ADDRESS = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+
+    const usdcMint = transferAt(1, zeroAddress, receiver, 1_000000n, { token: MAINNET_USDC_ADDRESS, chainId: 1 });
+    const afterUsdc = await ERC20.Transfer.processEvent({ event: usdcMint, mockDb: MockDb.createMockDb() });
+    const daiMint = transferAt(2, zeroAddress, receiver, 2n * 10n ** 18n, { token: DAI_ADDRESS, chainId: 1 });
+    const result = await ERC20.Transfer.processEvent({ event: daiMint, mockDb: afterUsdc });
+
+    const dayId = Math.floor(usdcMint.block.timestamp / 86400);
+    const crossDaily = result.entities.PeriodSnapshot.get(`1-all-DAY-${dayId}`);
+    expect(crossDaily?.volumeNormalized.toString()).toBe("3");
+    expect(crossDaily?.mintVolumeNormalized.toString()).toBe("3");
+    expect(crossDaily?.netMintBurnFlowNormalized.toString()).toBe("3");
+    expect(crossDaily?.mintVolume).toBeUndefined();
+  });
+});
+
+describe("Unit: Cross-chain asset rollups", () => {
+  const MAINNET_USDC_ADDRESS = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const USDT0_ADDRESS = "0x9151434b16b9763660705744891fA906F660EcC5";
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const receiver = Addresses.mockAddresses[1]!;
+
+  it("Same asset on two chains rolls up with a per-chain breakdown", async () => {
+    const unichainMint = transferAt(1, zeroAddress, receiver, 3000000n);
+    const afterUnichain = await ERC20.Transfer.processEvent({ event: unichainMint, mockDb: MockDb.createMockDb() });
+
+    const mainnetMint = transferAt(2, zeroAddress, receiver, 2000000n, { token: MAINNET_USDC_ADDRESS, chainId: 1 });
+    const result = await ERC20.Transfer.processEvent({ event: mainnetMint, mockDb: afterUnichain });
+
+    expect(result.entities.Token.get(`1-${MAINNET_USDC_ADDRESS}`)?.asset).toBe("USDC");
+
+    const asset = result.entities.Asset.get("USDC");
+    expect(asset?.totalSupply.toString()).toBe("5");
+    expect(asset?.totalMinted.toString()).toBe("5");
+    // One holder per chain
+    expect(asset?.holderCount).toBe(2);
+    expect(asset?.transferCount).toBe(2);
+
+    expect(result.entities.AssetChainSupply.get(`USDC-${MOCK_CHAIN_ID}`)?.totalSupply.toString()).toBe("3");
+    expect(result.entities.AssetChainSupply.get("USDC-1")?.totalSupply.toString()).toBe("2");
+
+    const dayId = Math.floor(mainnetMint.block.timestamp / 86400);
+    const daily = result.entities.AssetDailySnapshot.get(`USDC-${dayId}`);
+    expect(daily?.dailyMintVolume.toString()).toBe("5");
+    expect(daily?.endOfDaySupply.toString()).toBe("5");
+  });
+
+  it("Deployments with different decimals are summed in whole tokens", async () => {
+    const usdt0Mint = transferAt(1, zeroAddress, receiver, 1500000n, { token: USDT0_ADDRESS }); // 1.5 USDT0, 6 decimals
+    const afterUsdt0 = await ERC20.Transfer.processEvent({ event: usdt0Mint, mockDb: MockDb.createMockDb() });
+
+    // An 18-decimals USDT deployment (like BSC's) on the same chain
+    const usdt18Address = Addresses.mockAddresses[6]!;
+    const withUsdt18 = afterUsdt0.entities.Token.set({
+      id: `${MOCK_CHAIN_ID}-${usdt18Address}`,
+      chainId: MOCK_CHAIN_ID,
+      address: usdt18Address,
+      symbol: "USDT",
+      name: "Tether USD",
+      decimals: 18,
+      issuer: "Tether",
+      pegCurrency: "USD",
+      asset: "USDT",
+    });
+    // 2.5 USDT, 18 decimals
+    const usdt18Mint = transferAt(2, zeroAddress, receiver, 2500000000000000000n, { token: usdt18Address });
+    const result = await ERC20.Transfer.processEvent({ event: usdt18Mint, mockDb: withUsdt18 });
+
+    expect(result.entities.Asset.get("USDT")?.totalSupply.toString()).toBe("4");
+    expect(result.entities.AssetChainSupply.get(`USDT-${MOCK_CHAIN_ID}`)?.totalSupply.toString()).toBe("4");
+  });
+
+  it("Tokens outside the static registry aren't rolled up", async () => {
+    const unknownToken = Addresses.mockAddresses[5]!;
+    const event = transferAt(1, zeroAddress, receiver, 1n, { token: unknownToken });
+    const mockDb = MockDb.createMockDb().entities.Token.set({
+      id: `${MOCK_CHAIN_ID}-${unknownToken}`,
+      chainId: MOCK_CHAIN_ID,
+      address: unknownToken,
+      symbol: "USDC",
+      name: "Not USD Coin",
+      decimals: 6,
+      issuer: undefined,
+      pegCurrency: undefined,
+      asset: undefined,
+    });
+    const result = await ERC20.Transfer.processEvent({ event, mockDb });
+
+    expect(result.entities.Asset.get("USDC")).toBeUndefined();
+  });
+});
+
+describe("Unit: Holder distribution", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Moves holders and balances across the default tiers", async () => {
+    const mint = transferAt(1, zeroAddress, alice, 150000000n); // 150 USDC
+    const afterMint = await ERC20.Transfer.processEvent({ event: mint, mockDb: MockDb.createMockDb() });
+
+    const transfer = transferAt(2, alice, bob, 100000000n); // 100 USDC: alice drops below $100, bob lands on the edge
+    const result = await ERC20.Transfer.processEvent({ event: transfer, mockDb: afterMint });
+
+    const distribution = result.entities.HolderDistribution.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}`);
+    expect(distribution?.tierEdges).toEqual([100n, 10000n, 1000000n]);
+    expect(distribution?.holderCounts).toEqual([1, 1, 0, 0]);
+    expect(distribution?.tierBalances).toEqual([50000000n, 100000000n, 0n, 0n]);
+    expect(distribution?.supplyShares.map((share) => share.toFixed(4))).toEqual([
+      "0.3333",
+      "0.6667",
+      "0.0000",
+      "0.0000",
+    ]);
+
+    const dayId = Math.floor(transfer.block.timestamp / 86400);
+    const daily = result.entities.HolderDistributionDailySnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`);
+    expect(daily?.holderCounts).toEqual([1, 1, 0, 0]);
+  });
+
+  it("Uses HOLDER_TIERS edges scaled by token decimals", async () => {
+    vi.stubEnv("HOLDER_TIERS", "1,10");
+
+    const mint = transferAt(1, zeroAddress, alice, 5000000n); // 5 USDC
+    const result = await ERC20.Transfer.processEvent({ event: mint, mockDb: MockDb.createMockDb() });
+
+    const distribution = result.entities.HolderDistribution.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}`);
+    expect(distribution?.holderCounts).toEqual([0, 1, 0]);
+    expect(distribution?.supplyShares[1]?.toString()).toBe("1");
+  });
+});
+
+describe("Unit: Top-holder leaderboard", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const carol = Addresses.mockAddresses[2]!;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Keeps the board bounded and records entries and exits", async () => {
+    vi.stubEnv("LEADERBOARD_SIZE", "2");
+
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1, zeroAddress, alice, 300n), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(2, zeroAddress, bob, 200n), mockDb });
+    const carolMint = transferAt(3, zeroAddress, carol, 250n);
+    const result = await ERC20.Transfer.processEvent({ event: carolMint, mockDb });
+
+    const board = result.entities.Leaderboard.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}`);
+    expect(board?.holders).toEqual([alice, carol]);
+    expect(board?.balances).toEqual([300n, 250n]);
+    expect(board?.supplyShares.map((share) => share.toFixed(2))).toEqual(["0.40", "0.33"]);
+
+    const changeId = (account: string) =>
+      `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${carolMint.block.number}-${carolMint.logIndex}-${account}`;
+    expect(result.entities.LeaderboardChange.get(changeId(carol))).toMatchObject({
+      changeType: "ENTERED",
+      newRank: 2,
+    });
+    expect(result.entities.LeaderboardChange.get(changeId(bob))).toMatchObject({
+      changeType: "EXITED",
+      oldRank: 2,
+      newRank: undefined,
+    });
+  });
+
+  it("Records rank moves and daily top-N concentration", async () => {
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1, zeroAddress, alice, 300n), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(2, zeroAddress, bob, 100n), mockDb });
+
+    const transfer = transferAt(3, alice, bob, 250n);
+    const result = await ERC20.Transfer.processEvent({ event: transfer, mockDb });
+
+    const changeId = (account: string) =>
+      `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${transfer.block.number}-${transfer.logIndex}-${account}`;
+    expect(result.entities.LeaderboardChange.get(changeId(bob))).toMatchObject({
+      changeType: "RANK_CHANGED",
+      oldRank: 2,
+      newRank: 1,
+      balance: 350n,
+    });
+
+    const dayId = Math.floor(transfer.block.timestamp / 86400);
+    const daily = result.entities.DailySnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`);
+    expect(daily?.top10Share?.toString()).toBe("1");
+    expect(daily?.top100Share?.toString()).toBe("1");
+  });
+});
+
+describe("Unit: Address labels and flows", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const treasury = Addresses.mockAddresses[0]!;
+  const exchange = Addresses.mockAddresses[1]!;
+  const user = Addresses.mockAddresses[2]!;
+
+  const labelsFile = join(mkdtempSync(join(tmpdir(), "labels-")), "labels.json");
+  writeFileSync(
+    labelsFile,
+    JSON.stringify([
+      { address: treasury, category: "ISSUER_TREASURY", name: "Circle Treasury" },
+      { address: exchange.toLowerCase(), category: "CEX", name: "Some Exchange", chainId: MOCK_CHAIN_ID },
+    ])
+  );
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Labels accounts and accounts for exchange and issuer flows", async () => {
+    vi.stubEnv("LABELS_FILE", labelsFile);
+
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1, zeroAddress, treasury, 1000n), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(2, treasury, exchange, 600n), mockDb });
+    const withdrawal = transferAt(3, exchange, user, 200n);
+    const result = await ERC20.Transfer.processEvent({ event: withdrawal, mockDb });
+
+    const exchangeAccount = result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${exchange}`);
+    expect(exchangeAccount?.labelCategory).toBe("CEX");
+    expect(exchangeAccount?.labelName).toBe("Some Exchange");
+    expect(result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${user}`)?.labelCategory).toBeUndefined();
+
+    const dayId = Math.floor(withdrawal.block.timestamp / 86400);
+    const flow = result.entities.DailyFlow.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`);
+    expect(flow?.issuerInflow).toBe(1000n);
+    expect(flow?.issuerOutflow).toBe(600n);
+    expect(flow?.exchangeInflow).toBe(600n);
+    expect(flow?.exchangeOutflow).toBe(200n);
+    expect(flow?.netExchangeFlow).toBe(400n);
+    expect(flow?.bridgeInflow).toBe(0n);
+  });
+
+  it("Writes no DailyFlow without labels", async () => {
+    const event = transferAt(1, treasury, exchange, 1n);
+    const result = await ERC20.Transfer.processEvent({ event, mockDb: MockDb.createMockDb() });
+
+    const dayId = Math.floor(event.block.timestamp / 86400);
+    expect(result.entities.DailyFlow.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`)).toBeUndefined();
+  });
+});
+
+describe("Unit: CCTP cross-chain transfers", () => {
+  const MAINNET_USDC_ADDRESS = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const UNICHAIN_TOKEN_MESSENGER = "0x4e744b28E787c3aD0e810eD65A24461D4ac5a762";
+  const MAINNET_TOKEN_MESSENGER = "0xBd3fa81B58Ba92a82136038B25aDec7066af3155";
+  const MAINNET_MESSAGE_TRANSMITTER = "0x0a992d191DEeC32aFe36203Ad87D7d289a738F81";
+  const UNICHAIN_DOMAIN = 10n;
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const nonce = 7n;
+
+  const word = (value: string | bigint) =>
+    (typeof value === "bigint" ? value.toString(16) : value.slice(2).toLowerCase()).padStart(64, "0");
+  // BurnMessage: version, burnToken, mintRecipient, amount, messageSender
+  const burnMessage = `0x00000000${word(USDC_ADDRESS)}${word(bob)}${word(400n)}${word(alice)}`;
+
+  const sourceEvents = async (mockDb: ReturnType<typeof MockDb.createMockDb>) => {
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1, zeroAddress, alice, 1000n), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(2, alice, zeroAddress, 400n), mockDb });
+    return TokenMessenger.DepositForBurn.processEvent({
+      event: TokenMessenger.DepositForBurn.createMockEvent({
+        nonce,
+        burnToken: USDC_ADDRESS,
+        amount: 400n,
+        depositor: alice,
+        mintRecipient: `0x${word(bob)}`,
+        destinationDomain: 0n,
+        destinationTokenMessenger: `0x${word(MAINNET_TOKEN_MESSENGER)}`,
+        destinationCaller: `0x${word(0n)}`,
+        mockEventData: { srcAddress: UNICHAIN_TOKEN_MESSENGER, chainId: MOCK_CHAIN_ID },
+      }),
+      mockDb,
+    });
+  };
+
+  const destinationEvents = async (mockDb: ReturnType<typeof MockDb.createMockDb>) => {
+    mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(1, zeroAddress, bob, 400n, { token: MAINNET_USDC_ADDRESS, chainId: 1 }),
+      mockDb,
+    });
+    mockDb = await TokenMessenger.MintAndWithdraw.processEvent({
+      event: TokenMessenger.MintAndWithdraw.createMockEvent({
+        mintRecipient: bob,
+        amount: 400n,
+        mintToken: MAINNET_USDC_ADDRESS,
+        mockEventData: { srcAddress: MAINNET_TOKEN_MESSENGER, chainId: 1 },
+      }),
+      mockDb,
+    });
+    return MessageTransmitter.MessageReceived.processEvent({
+      event: MessageTransmitter.MessageReceived.createMockEvent({
+        caller: bob,
+        sourceDomain: UNICHAIN_DOMAIN,
+        nonce,
+        sender: `0x${word(UNICHAIN_TOKEN_MESSENGER)}`,
+        messageBody: burnMessage,
+        mockEventData: { srcAddress: MAINNET_MESSAGE_TRANSMITTER, chainId: 1 },
+      }),
+      mockDb,
+    });
+  };
+
+  it("Links burn and mint and reports them as bridge supply changes", async () => {
+    const afterBurn = await sourceEvents(MockDb.createMockDb());
+
+    const pending = afterBurn.entities.CrossChainTransfer.get(`${UNICHAIN_DOMAIN}-${nonce}`);
+    expect(pending?.status).toBe("BURNED");
+    expect(pending?.destinationChainId).toBe(1);
+    expect(pending?.recipient).toBe(bob);
+
+    const sourceSupply = afterBurn.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`);
+    expect(sourceSupply?.totalBurned).toBe(400n);
+    expect(sourceSupply?.issuerMinted).toBe(1000n);
+    expect(sourceSupply?.issuerBurned).toBe(0n);
+    expect(sourceSupply?.bridgeBurned).toBe(400n);
+
+    const result = await destinationEvents(afterBurn);
+
+    const transfer = result.entities.CrossChainTransfer.get(`${UNICHAIN_DOMAIN}-${nonce}`);
+    expect(transfer?.status).toBe("COMPLETED");
+    expect(transfer?.sourceChainId).toBe(MOCK_CHAIN_ID);
+    expect(transfer?.amount).toBe(400n);
+    expect(transfer?.destinationTxHash).toBeDefined();
+
+    const destinationSupply = result.entities.TokenSupply.get(`1-${MAINNET_USDC_ADDRESS}-supply`);
+    expect(destinationSupply?.totalMinted).toBe(400n);
+    expect(destinationSupply?.issuerMinted).toBe(0n);
+    expect(destinationSupply?.bridgeMinted).toBe(400n);
+
+    const dailies = result.entities.DailySnapshot.getAll().filter((daily) => daily.token === MAINNET_USDC_ADDRESS);
+    expect(dailies[0]?.dailyBridgeMintVolume).toBe(400n);
+    expect(dailies[0]?.dailyIssuerMintVolume).toBe(0n);
+  });
+
+  it("A mint seen before its burn is linked once the burn arrives", async () => {
+    const afterMint = await destinationEvents(MockDb.createMockDb());
+
+    const received = afterMint.entities.CrossChainTransfer.get(`${UNICHAIN_DOMAIN}-${nonce}`);
+    expect(received?.status).toBe("MINTED");
+    expect(received?.sender).toBe(alice);
+    expect(received?.burnToken).toBe(USDC_ADDRESS);
+
+    const result = await sourceEvents(afterMint);
+    const transfer = result.entities.CrossChainTransfer.get(`${UNICHAIN_DOMAIN}-${nonce}`);
+    expect(transfer?.status).toBe("COMPLETED");
+    expect(transfer?.destinationTimestamp).toBe(received?.destinationTimestamp);
+  });
+});
+
+describe("Unit: Allowances", () => {
+  const MAX_UINT256 = 2n ** 256n - 1n;
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const owner = Addresses.mockAddresses[0]!;
+  const spender = Addresses.mockAddresses[1]!;
+  const relayer = Addresses.mockAddresses[2]!;
+  const receiver = Addresses.mockAddresses[3]!;
+  const allowanceId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${owner}-${spender}`;
+  const totalsId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${spender}`;
+
+  const permitInput = `0xd505accf${"0".repeat(64 * 7)}`;
+
+  const approve = (value: bigint, txFrom: typeof owner, input = "0x095ea7b3", txTo: typeof owner = USDC_ADDRESS) =>
+    ERC20.Approval.createMockEvent({
+      owner,
+      spender,
+      value,
+      mockEventData: {
+        srcAddress: USDC_ADDRESS,
+        chainId: MOCK_CHAIN_ID,
+        transaction: { from: txFrom, to: txTo, input },
+      },
+    });
+
+  const fundedMockDb = () =>
+    ERC20.Transfer.processEvent({
+      event: transferAt(1, zeroAddress, owner, 5000n),
+      mockDb: MockDb.createMockDb(),
+    });
+
+  it("Approve sets the allowance and a transferFrom by the spender reduces it", async () => {
+    let mockDb = await fundedMockDb();
+    mockDb = await ERC20.Approval.processEvent({ event: approve(1000n, owner), mockDb });
+
+    expect(mockDb.entities.Allowance.get(allowanceId)).toMatchObject({
+      amount: 1000n,
+      isUnlimited: false,
+      method: "APPROVE",
+    });
+
+    // Owner's own transfer isn't a spend
+    const own = transferAt(2, owner, receiver, 100n, { transaction: { from: owner, to: USDC_ADDRESS } });
+    mockDb = await ERC20.Transfer.processEvent({ event: own, mockDb });
+    expect(mockDb.entities.Allowance.get(allowanceId)?.amount).toBe(1000n);
+
+    const spend = transferAt(3, owner, receiver, 300n, { transaction: { from: spender, to: USDC_ADDRESS } });
+    const result = await ERC20.Transfer.processEvent({ event: spend, mockDb });
+    expect(result.entities.Allowance.get(allowanceId)?.amount).toBe(700n);
+    expect(result.entities.SpenderAllowanceTotals.get(totalsId)).toMatchObject({
+      approverCount: 1,
+      totalAllowance: 700n,
+      unlimitedCount: 0,
+      permitCount: 0,
+    });
+  });
+
+  it("Relayed permits and unlimited approvals are counted separately", async () => {
+    let mockDb = await fundedMockDb();
+    mockDb = await ERC20.Approval.processEvent({ event: approve(MAX_UINT256, relayer, permitInput), mockDb });
+
+    expect(mockDb.entities.Allowance.get(allowanceId)).toMatchObject({ isUnlimited: true, method: "PERMIT" });
+
+    // Spent by the spender contract the owner called: stays unlimited
+    const spend = transferAt(2, owner, receiver, 300n, { transaction: { from: owner, to: spender } });
+    mockDb = await ERC20.Transfer.processEvent({ event: spend, mockDb });
+    expect(mockDb.entities.Allowance.get(allowanceId)?.amount).toBe(MAX_UINT256);
+    expect(mockDb.entities.SpenderAllowanceTotals.get(totalsId)).toMatchObject({
+      approverCount: 1,
+      totalAllowance: 0n,
+      unlimitedCount: 1,
+      permitCount: 1,
+    });
+
+    // Revoking clears the spender's totals
+    const result = await ERC20.Approval.processEvent({ event: approve(0n, owner), mockDb });
+    expect(result.entities.SpenderAllowanceTotals.get(totalsId)).toMatchObject({
+      approverCount: 0,
+      unlimitedCount: 0,
+      permitCount: 1,
+    });
+  });
+
+  it("Matches the spender whatever the case of the transaction addresses", async () => {
+    const lower = (address: typeof owner) => address.toLowerCase() as typeof owner;
+    let mockDb = await fundedMockDb();
+    mockDb = await ERC20.Approval.processEvent({ event: approve(1000n, owner), mockDb });
+
+    // Neither the owner nor the token is a spender when the transaction fields are lowercase
+    const own = transferAt(2, owner, receiver, 100n, { transaction: { from: lower(owner), to: lower(USDC_ADDRESS) } });
+    mockDb = await ERC20.Transfer.processEvent({ event: own, mockDb });
+    expect(mockDb.entities.Allowance.get(allowanceId)?.amount).toBe(1000n);
+
+    const spend = transferAt(3, owner, receiver, 300n, {
+      transaction: { from: lower(spender), to: lower(USDC_ADDRESS) },
+    });
+    const result = await ERC20.Transfer.processEvent({ event: spend, mockDb });
+    expect(result.entities.Allowance.get(allowanceId)?.amount).toBe(700n);
+  });
+
+  it("Doesn't spend twice when transferFrom emits its own Approval", async () => {
+    let mockDb = await fundedMockDb();
+    mockDb = await ERC20.Approval.processEvent({ event: approve(1000n, owner), mockDb });
+
+    // OpenZeppelin v4: Approval with the reduced allowance, then the Transfer
+    const spendTx = `0x${"ef".repeat(32)}`;
+    const reduced = ERC20.Approval.createMockEvent({
+      owner,
+      spender,
+      value: 600n,
+      mockEventData: {
+        srcAddress: USDC_ADDRESS,
+        chainId: MOCK_CHAIN_ID,
+        logIndex: 4,
+        transaction: { hash: spendTx, from: spender, to: spender, input: "0x23b872dd" },
+      },
+    });
+    mockDb = await ERC20.Approval.processEvent({ event: reduced, mockDb });
+    const transfer = transferAt(2, owner, receiver, 400n, {
+      logIndex: 5,
+      transaction: { hash: spendTx, from: spender, to: spender },
+    });
+    const result = await ERC20.Transfer.processEvent({ event: transfer, mockDb });
+
+    expect(result.entities.Allowance.get(allowanceId)?.amount).toBe(600n);
+    expect(result.entities.SpenderAllowanceTotals.get(totalsId)?.totalAllowance).toBe(600n);
+  });
+
+  it("A contract approving inside someone else's transaction isn't a permit", async () => {
+    // The owner is a vault; the user's transaction calls the vault, which approves a spender
+    const mockDb = await ERC20.Approval.processEvent({
+      event: approve(1000n, relayer, "0xb6b55f25", receiver),
+      mockDb: await fundedMockDb(),
+    });
+
+    expect(mockDb.entities.Allowance.get(allowanceId)).toMatchObject({ amount: 1000n, method: "RELAYED" });
+    expect(mockDb.entities.SpenderAllowanceTotals.get(totalsId)).toMatchObject({ approverCount: 1, permitCount: 0 });
+  });
+});
+
+describe("Unit: Transaction netting", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const user = Addresses.mockAddresses[0]!;
+  const router = Addresses.mockAddresses[1]!;
+  const pool = Addresses.mockAddresses[2]!;
+  const routeTx = `0x${"ab".repeat(32)}`;
+  const mintTx = `0x${"cd".repeat(32)}`;
+
+  it("Counts a multi-hop route once in adjusted volume", async () => {
+    let mockDb = MockDb.createMockDb();
+    const mint = transferAt(1, zeroAddress, user, 400n, { transaction: { hash: mintTx } });
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    // user -> router -> pool, then 50 back to the user: net 100 from the user to the pool
+    const route = { transaction: { hash: routeTx } };
+    for (const event of [
+      transferAt(2, user, router, 150n, { ...route, logIndex: 0 }),
+      transferAt(2, router, pool, 150n, { ...route, logIndex: 1 }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+    const last = transferAt(2, pool, user, 50n, { ...route, logIndex: 2 });
+    const result = await ERC20.Transfer.processEvent({ event: last, mockDb });
+
+    const dayId = Math.floor(last.block.timestamp / 86400);
+    const daily = result.entities.DailySnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`);
+    expect(daily?.dailyVolume).toBe(750n);
+    expect(daily?.adjustedVolume).toBe(500n); // 400 minted + 100 net to the pool
+    expect(daily?.adjustedVelocity.toString()).toBe("1.25");
+    expect(daily?.transactionCount).toBe(2);
+
+    // One row per token, holding the latest transaction
+    expect(result.entities.TransactionNetFlow.getAll()).toHaveLength(1);
+    const netFlow = result.entities.TransactionNetFlow.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}`);
+    expect(netFlow?.txHash).toBe(routeTx);
+    expect(netFlow?.addresses).toEqual([user, router, pool]);
+    expect(netFlow?.netFlows).toEqual([-100n, 0n, 100n]);
+    expect(netFlow?.adjustedVolume).toBe(100n);
+  });
+});
+
+describe("Unit: Supply reconciliation", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const holder = Addresses.mockAddresses[0]!;
+  const receiver = Addresses.mockAddresses[1]!;
+  const supplyId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`;
+
+  // Mocked RPC: totalSupply() and balanceOf() answer from `chain`, and calls are logged
+  const chain = { totalSupply: 0n, balance: 0n };
+  const calls: { data: string; block: string }[] = [];
+  const stubTokenRpc = () => {
+    vi.stubEnv(`RPC_URL_${MOCK_CHAIN_ID}`, "http://rpc.test");
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const [{ data }, block] = JSON.parse(init.body).params as [{ data: string }, string];
+        calls.push({ data, block });
+        const value = data.startsWith("0x18160ddd") ? chain.totalSupply : chain.balance;
+        return Response.json({ jsonrpc: "2.0", id: 1, result: `0x${value.toString(16).padStart(64, "0")}` });
+      })
+    );
+  };
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    calls.length = 0;
+    chain.totalSupply = 0n;
+    chain.balance = 0n;
+  });
+
+  it("Is off by default", async () => {
+    stubTokenRpc();
+    const mint = transferAt(100, zeroAddress, holder, 1000n);
+    await ERC20.Transfer.processEvent({ event: mint, mockDb: MockDb.createMockDb() });
+    expect(calls).toHaveLength(0);
+  });
+
+  it("Records mismatches with the contract at the configured block interval", async () => {
+    vi.stubEnv("RECONCILE_INTERVAL", "blocks:10");
+    vi.stubEnv("RECONCILE_TOP_ACCOUNTS", "1");
+    stubTokenRpc();
+
+    let mockDb = MockDb.createMockDb();
+    // First movement is checked against block 99, where nothing was minted yet
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(100, zeroAddress, holder, 1000n), mockDb });
+    expect(calls.map((call) => call.block)).toEqual(["0x63"]);
+    expect(mockDb.entities.TokenSupply.get(supplyId)?.lastReconciledBlock).toBe(99);
+
+    // Not due yet
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(105, holder, receiver, 100n), mockDb });
+    expect(calls).toHaveLength(1);
+
+    // Due: the contract reports 500 more supply than indexed (e.g. a missed mint)
+    chain.totalSupply = 1500n;
+    chain.balance = 900n;
+    const result = await ERC20.Transfer.processEvent({ event: transferAt(120, holder, receiver, 100n), mockDb });
+
+    expect(calls).toHaveLength(3);
+    expect(calls[2]?.data).toBe(`0x70a08231${holder.slice(2).toLowerCase().padStart(64, "0")}`);
+
+    expect(result.entities.SupplyDiscrepancy.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-119-supply`)).toMatchObject({
+      kind: "TOTAL_SUPPLY",
+      indexedValue: 1000n,
+      onChainValue: 1500n,
+      difference: 500n,
+    });
+    // The top holder's balance matches
+    expect(result.entities.SupplyDiscrepancy.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-119-${holder}`)).toBeUndefined();
+    expect(result.entities.TokenSupply.get(supplyId)?.lastReconciledBlock).toBe(119);
+  });
+});
+
+describe("Unit: Bootstrap", () => {
+  const holder = Addresses.mockAddresses[0]!;
+  const receiver = Addresses.mockAddresses[1]!;
+  const supplyId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`;
+  const accountId = (address: string) => `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${address}`;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("Starts accounts and supply from a CSV snapshot", async () => {
+    const snapshotFile = join(mkdtempSync(join(tmpdir(), "bootstrap-")), "snapshot.csv");
+    writeFileSync(
+      snapshotFile,
+      [
+        "chainId,token,address,balance",
+        `${MOCK_CHAIN_ID},${USDC_ADDRESS.toLowerCase()},${holder.toLowerCase()},700`,
+        `${MOCK_CHAIN_ID},${USDC_ADDRESS.toLowerCase()},${receiver.toLowerCase()},300`,
+      ].join("\n"),
+    );
+    vi.stubEnv("BOOTSTRAP", `file:${snapshotFile}`);
+
+    const result = await ERC20.Transfer.processEvent({
+      event: transferAt(200, holder, receiver, 700n),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    expect(result.entities.Account.get(accountId(holder))?.balance).toBe(0n);
+    expect(result.entities.Account.get(accountId(receiver))?.balance).toBe(1000n);
+    // Both snapshot holders were counted up front, and the sender has left
+    expect(result.entities.TokenSupply.get(supplyId)).toMatchObject({ totalSupply: 1000n, holderCount: 1 });
+    expect(result.entities.NegativeBalance.get(accountId(holder))).toBeUndefined();
+  });
+
+  it("Seeds the asset rollups with the opening supply and holders", async () => {
+    const snapshotFile = join(mkdtempSync(join(tmpdir(), "bootstrap-")), "snapshot.csv");
+    writeFileSync(
+      snapshotFile,
+      [
+        "chainId,token,address,balance",
+        `${MOCK_CHAIN_ID},${USDC_ADDRESS.toLowerCase()},${holder.toLowerCase()},7000000`,
+        `${MOCK_CHAIN_ID},${USDC_ADDRESS.toLowerCase()},${receiver.toLowerCase()},3000000`,
+      ].join("\n"),
+    );
+    vi.stubEnv("BOOTSTRAP", `file:${snapshotFile}`);
+
+    const event = transferAt(200, holder, receiver, 1000000n);
+    const result = await ERC20.Transfer.processEvent({ event, mockDb: MockDb.createMockDb() });
+
+    // The opening 10 USDC are not minted volume, but they are supply
+    const asset = result.entities.Asset.get("USDC");
+    expect(asset?.totalSupply.toString()).toBe("10");
+    expect(asset?.totalMinted.toString()).toBe("0");
+    expect(asset?.holderCount).toBe(2);
+    expect(result.entities.AssetChainSupply.get(`USDC-${MOCK_CHAIN_ID}`)).toMatchObject({ holderCount: 2 });
+    expect(result.entities.AssetChainSupply.get(`USDC-${MOCK_CHAIN_ID}`)?.totalSupply.toString()).toBe("10");
+
+    const dayId = Math.floor(event.block.timestamp / 86400);
+    const daily = result.entities.AssetDailySnapshot.get(`USDC-${dayId}`);
+    expect(daily?.endOfDaySupply.toString()).toBe("10");
+    expect(daily?.dailyVolume.toString()).toBe("1");
+    expect(daily?.holderCount).toBe(2);
+  });
+
+  // totalSupply() is 5000 and every balanceOf() 800; returns the blocks asked for
+  const stubRpc = () => {
+    vi.stubEnv("BOOTSTRAP", "rpc");
+    vi.stubEnv(`RPC_URL_${MOCK_CHAIN_ID}`, "http://rpc.test");
+    const blocks: string[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: string, init: { body: string }) => {
+        const [{ data }, block] = JSON.parse(init.body).params as [{ data: string }, string];
+        blocks.push(block);
+        const value = data.startsWith("0x18160ddd") ? 5000n : 800n;
+        return Response.json({ jsonrpc: "2.0", id: 1, result: `0x${value.toString(16).padStart(64, "0")}` });
+      })
+    );
+    return blocks;
+  };
+
+  it("Reads opening balances and supply over RPC at the block before first sight", async () => {
+    const blocks = stubRpc();
+
+    const result = await ERC20.Transfer.processEvent({
+      event: transferAt(500, holder, receiver, 800n),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    expect(blocks).toEqual(["0x1f3", "0x1f3", "0x1f3"]);
+    expect(result.entities.Account.get(accountId(holder))?.balance).toBe(0n);
+    expect(result.entities.Account.get(accountId(receiver))?.balance).toBe(1600n);
+    // Holders are only counted once they appear, and the supply says so
+    expect(result.entities.TokenSupply.get(supplyId)).toMatchObject({
+      totalSupply: 5000n,
+      holderCount: 1,
+      holderCountIsPartial: true,
+    });
+  });
+
+  it("Counts a holder first seen through a blacklist event in the asset rollups", async () => {
+    stubRpc();
+    const frozen = Addresses.mockAddresses[2]!;
+
+    let mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(500, holder, receiver, 800n),
+      mockDb: MockDb.createMockDb(),
+    });
+    const blacklisted = ERC20.Blacklisted.createMockEvent({
+      _account: frozen,
+      mockEventData: { srcAddress: USDC_ADDRESS, chainId: MOCK_CHAIN_ID, block: { number: 501 } },
+    });
+    mockDb = await ERC20.Blacklisted.processEvent({ event: blacklisted, mockDb });
+
+    expect(mockDb.entities.TokenSupply.get(supplyId)?.holderCount).toBe(2);
+    expect(mockDb.entities.Asset.get("USDC")?.holderCount).toBe(2);
+    expect(mockDb.entities.AssetChainSupply.get(`USDC-${MOCK_CHAIN_ID}`)?.holderCount).toBe(2);
+  });
+
+  it("Flags balances that go negative and resolves them", async () => {
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(300, holder, receiver, 100n), mockDb });
+
+    expect(mockDb.entities.Account.get(accountId(holder))?.balance).toBe(-100n);
+    expect(mockDb.entities.NegativeBalance.get(accountId(holder))).toMatchObject({
+      balance: -100n,
+      firstDetectedBlock: 300,
+      isResolved: false,
+    });
+    // A negative balance isn't a holder
+    expect(mockDb.entities.TokenSupply.get(supplyId)?.holderCount).toBe(1);
+
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(301, receiver, holder, 100n), mockDb });
+    expect(mockDb.entities.NegativeBalance.get(accountId(holder))).toMatchObject({
+      balance: 0n,
+      firstDetectedBlock: 300,
+      lastUpdatedBlock: 301,
+      isResolved: true,
+    });
+    expect(mockDb.entities.TokenSupply.get(supplyId)?.holderCount).toBe(0);
+  });
+});
+
+describe("Unit: Daily series", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const holder = Addresses.mockAddresses[0]!;
+  const receiver = Addresses.mockAddresses[1]!;
+  const dailyId = (dayId: number) => `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`;
+  const firstDay = 20_000;
+
+  it("Fills days without transfers with carried-forward supply and holders", async () => {
+    let mockDb = MockDb.createMockDb();
+    const mint = transferAt(1, zeroAddress, holder, 1000n, { dayId: firstDay });
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    const transfer = transferAt(2, holder, receiver, 400n, { dayId: firstDay });
+    mockDb = await ERC20.Transfer.processEvent({ event: transfer, mockDb });
+
+    expect(mockDb.entities.DailySnapshot.get(dailyId(firstDay))).toMatchObject({
+      openingSupply: 0n,
+      endOfDaySupply: 1000n,
+      supplyChange: 1000n,
+      holderCount: 2,
+    });
+
+    // Nothing happens for two days, then a burn
+    const result = await ERC20.Transfer.processEvent({
+      event: transferAt(3, receiver, zeroAddress, 100n, { dayId: firstDay + 3 }),
+      mockDb,
+    });
+
+    for (const gapDay of [firstDay + 1, firstDay + 2]) {
+      expect(result.entities.DailySnapshot.get(dailyId(gapDay))).toMatchObject({
+        dayStartTimestamp: gapDay * 86400,
+        dailyVolume: 0n,
+        dailyTransferCount: 0,
+        openingSupply: 1000n,
+        endOfDaySupply: 1000n,
+        supplyChange: 0n,
+        holderCount: 2,
+      });
+    }
+    expect(result.entities.DailySnapshot.get(dailyId(firstDay + 2))?.top10Share?.toString()).toBe("1");
+    expect(result.entities.DailySnapshot.get(dailyId(firstDay + 3))).toMatchObject({
+      dailyVolume: 100n,
+      openingSupply: 1000n,
+      endOfDaySupply: 900n,
+      supplyChange: -100n,
+      holderCount: 2,
+    });
+    expect(result.entities.DailySnapshot.get(dailyId(firstDay + 4))).toBeUndefined();
+  });
+});
+
+describe("Unit: Holder cohorts", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const carol = Addresses.mockAddresses[2]!;
+  const cohortDay = 20_100;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Tracks new addresses, churn and per-cohort retention", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const event of [
+      transferAt(1, zeroAddress, alice, 100n, { dayId: cohortDay }),
+      transferAt(2, zeroAddress, bob, 100n, { dayId: cohortDay }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    // Next day alice empties her balance into a new address
+    const moved = transferAt(3, alice, carol, 100n, { dayId: cohortDay + 1 });
+    const result = await ERC20.Transfer.processEvent({ event: moved, mockDb });
+
+    const cohortId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${cohortDay}`;
+    expect(result.entities.HolderCohort.get(cohortId)).toMatchObject({ newAddresses: 2, currentHolders: 1 });
+    expect(result.entities.HolderCohortDailySnapshot.get(`${cohortId}-${cohortDay}`)).toMatchObject({
+      daysSinceCohort: 0,
+      holders: 2,
+    });
+    const dayAfter = result.entities.HolderCohortDailySnapshot.get(`${cohortId}-${cohortDay + 1}`);
+    expect(dayAfter).toMatchObject({ daysSinceCohort: 1, newAddresses: 2, holders: 1 });
+    expect(dayAfter?.retention.toString()).toBe("0.5");
+
+    expect(
+      result.entities.HolderCohort.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${cohortDay + 1}`)
+    ).toMatchObject({ newAddresses: 1, currentHolders: 1 });
+
+    expect(result.entities.DailySnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${cohortDay}`)).toMatchObject({
+      newAddressCount: 2,
+      churnedAddressCount: 0,
+    });
+    expect(result.entities.DailySnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${cohortDay + 1}`)).toMatchObject({
+      newAddressCount: 1,
+      churnedAddressCount: 1,
+    });
+  });
+
+  it("Counts a bootstrapped sender's cohort from its balance after the movement", async () => {
+    const snapshotFile = join(mkdtempSync(join(tmpdir(), "bootstrap-")), "snapshot.csv");
+    writeFileSync(
+      snapshotFile,
+      ["chainId,token,address,balance", `${MOCK_CHAIN_ID},${USDC_ADDRESS.toLowerCase()},${alice.toLowerCase()},100`].join(
+        "\n",
+      ),
+    );
+    vi.stubEnv("BOOTSTRAP", `file:${snapshotFile}`);
+
+    // alice held her opening balance before first sight and sends all of it to bob
+    const result = await ERC20.Transfer.processEvent({
+      event: transferAt(1, alice, bob, 100n, { dayId: cohortDay }),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    const cohortId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${cohortDay}`;
+    expect(result.entities.HolderCohort.get(cohortId)).toMatchObject({ newAddresses: 2, currentHolders: 1 });
+    expect(result.entities.HolderCohortDailySnapshot.get(`${cohortId}-${cohortDay}`)?.retention.toString()).toBe("0.5");
+  });
+});
+
+describe("Unit: Dormancy", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const mintDay = 20_200;
+  const dailyId = (dayId: number) => `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}`;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Day-start timestamps, so acquisition times are whole days
+  const startOf = (dayId: number) => ({ timestamp: dayId * 86400 });
+
+  it("Ages idle balances into dormant supply and counts coin-days destroyed", async () => {
+    vi.stubEnv("DORMANCY_THRESHOLDS", "2,5");
+
+    let mockDb = MockDb.createMockDb();
+    const mint = transferAt(1, zeroAddress, alice, 1000_000000n, startOf(mintDay));
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    expect(mockDb.entities.DailySnapshot.get(dailyId(mintDay))?.dormantSupply).toEqual([0n, 0n]);
+
+    // Three days later alice sends 400 USDC that sat idle since the mint
+    const spend = transferAt(2, alice, bob, 400_000000n, startOf(mintDay + 3));
+    const result = await ERC20.Transfer.processEvent({ event: spend, mockDb });
+
+    // Gap days: the minted balance crosses the 2-day threshold on day 2
+    expect(result.entities.DailySnapshot.get(dailyId(mintDay + 1))?.dormantSupply).toEqual([0n, 0n]);
+    expect(result.entities.DailySnapshot.get(dailyId(mintDay + 2))?.dormantSupply).toEqual([1000_000000n, 0n]);
+
+    const daily = result.entities.DailySnapshot.get(dailyId(mintDay + 3));
+    expect(daily?.dormancyThresholds).toEqual([2, 5]);
+    expect(daily?.dormantSupply).toEqual([600_000000n, 0n]);
+    expect(daily?.coinDaysDestroyed.toString()).toBe("1200");
+    // 400 moved against the 400 that isn't dormant
+    expect(daily?.activityAdjustedVelocity.toString()).toBe("1");
+
+    const aliceAccount = result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${alice}`);
+    expect(aliceAccount).toMatchObject({
+      acquiredTimestamp: mintDay * 86400,
+      balanceUpdatedTimestamp: (mintDay + 3) * 86400,
+    });
+    expect(result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${bob}`)?.acquiredTimestamp).toBe(
+      (mintDay + 3) * 86400
+    );
+  });
+
+  it("Averages the acquisition time on deposits", async () => {
+    let mockDb = MockDb.createMockDb();
+    const mint = transferAt(1, zeroAddress, alice, 100n, startOf(mintDay));
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    const deposit = transferAt(2, zeroAddress, alice, 300n, startOf(mintDay + 10));
+    const result = await ERC20.Transfer.processEvent({ event: deposit, mockDb });
+
+    const account = result.entities.Account.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${alice}`);
+    // 100 aged 10 days plus 300 new: 2.5 days old
+    expect(account?.acquiredTimestamp).toBe(mintDay * 86400 + 7.5 * 86400);
+  });
+});
+
+describe("Unit: Balance snapshot policies", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const day = 20_300;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Mint to alice, then two 1-unit payments to bob: one later that day, one the next day
+  const run = async () => {
+    let mockDb = MockDb.createMockDb();
+    const mint = transferAt(1, zeroAddress, alice, 1_000_000_000n, { timestamp: day * 86400 });
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    const laterThatDay = transferAt(2, alice, bob, 1n, { timestamp: day * 86400 + 60 });
+    mockDb = await ERC20.Transfer.processEvent({ event: laterThatDay, mockDb });
+    return ERC20.Transfer.processEvent({ event: transferAt(3, alice, bob, 1n, { dayId: day + 1 }), mockDb });
+  };
+  const aliceSnapshotBlocks = (result: Awaited<ReturnType<typeof run>>) =>
+    [1, 2, 3].filter((block) =>
+      result.entities.AccountBalanceSnapshot.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${alice}-${block}-0`)
+    );
+
+  it("threshold (default) skips small changes", async () => {
+    expect(aliceSnapshotBlocks(await run())).toEqual([1]);
+  });
+
+  it("period:DAY adds each account's first change of the day", async () => {
+    vi.stubEnv("BALANCE_SNAPSHOTS", "period:DAY");
+    expect(aliceSnapshotBlocks(await run())).toEqual([1, 3]);
+  });
+
+  it("Per-token overrides select all or none", async () => {
+    vi.stubEnv("BALANCE_SNAPSHOTS_OVERRIDES", `${MOCK_CHAIN_ID}-${USDC_ADDRESS}=all`);
+    expect(aliceSnapshotBlocks(await run())).toEqual([1, 2, 3]);
+
+    vi.stubEnv("BALANCE_SNAPSHOTS_OVERRIDES", `${MOCK_CHAIN_ID}-${USDC_ADDRESS}=none`);
+    expect(aliceSnapshotBlocks(await run())).toEqual([]);
+  });
+
+  it("AccountDailyBalance keeps each active day's opening and closing balance", async () => {
+    const result = await run();
+    const dailyBalance = (dayId: number) =>
+      result.entities.AccountDailyBalance.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${alice}-${dayId}`);
+
+    expect(dailyBalance(day)).toMatchObject({ openingBalance: 0n, closingBalance: 999_999_999n });
+    expect(dailyBalance(day + 1)).toMatchObject({ openingBalance: 999_999_999n, closingBalance: 999_999_998n });
+  });
+});
+
+describe("Unit: Counterparty flows", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const carol = Addresses.mockAddresses[2]!;
+  const whale = Addresses.mockAddresses[3]!;
+  const USDC = 1_000000n;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const pairId = (a: string, b: string) =>
+    a.toLowerCase() < b.toLowerCase()
+      ? `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${a}-${b}`
+      : `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${b}-${a}`;
+
+  it("Starts a pair at the volume threshold and keeps both directions", async () => {
+    vi.stubEnv("PAIR_FLOW_TOP_N", "0");
+
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1, zeroAddress, alice, 3_000_000n * USDC), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(2, alice, bob, 5n * USDC), mockDb });
+    expect(mockDb.entities.AccountPairFlow.get(pairId(alice, bob))).toBeUndefined();
+
+    const large = transferAt(3, alice, bob, 2_000_000n * USDC);
+    mockDb = await ERC20.Transfer.processEvent({ event: large, mockDb });
+    // Small transfers count once the pair is tracked
+    const result = await ERC20.Transfer.processEvent({ event: transferAt(4, bob, alice, 1n * USDC), mockDb });
+
+    const aliceIsA = alice.toLowerCase() < bob.toLowerCase();
+    const pair = result.entities.AccountPairFlow.get(pairId(alice, bob));
+    expect(pair).toMatchObject({
+      totalVolume: 2_000_001n * USDC,
+      volumeAToB: aliceIsA ? 2_000_000n * USDC : 1n * USDC,
+      volumeBToA: aliceIsA ? 1n * USDC : 2_000_000n * USDC,
+      transfersAToB: 1,
+      transfersBToA: 1,
+      firstInteractionTimestamp: large.block.timestamp,
+    });
+    const dayId = Math.floor(large.block.timestamp / 86400);
+    expect(result.entities.AccountPairDailyFlow.get(`${pairId(alice, bob)}-${dayId}`)?.totalVolume).toBe(
+      2_000_001n * USDC
+    );
+  });
+
+  it("Tracks small transfers that touch a top holder", async () => {
+    vi.stubEnv("PAIR_FLOW_TOP_N", "1");
+
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1, zeroAddress, whale, 10n * USDC), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(2, zeroAddress, alice, 2n * USDC), mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transferAt(3, alice, bob, 1n * USDC), mockDb });
+    const result = await ERC20.Transfer.processEvent({ event: transferAt(4, whale, carol, 1n * USDC), mockDb });
+
+    expect(result.entities.AccountPairFlow.get(pairId(alice, bob))).toBeUndefined();
+    expect(result.entities.AccountPairFlow.get(pairId(whale, carol))?.totalVolume).toBe(1n * USDC);
+  });
+});
+
+describe("Unit: Alerts", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const USDC = 1_000000n;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Writes large movements to the outbox under ids that survive a re-run", async () => {
+    vi.stubEnv("ALERT_TRANSFER_MIN_TOKENS", "1000");
+    vi.stubEnv("ALERT_MINT_BURN_MIN_TOKENS", "5000");
+
+    const mint = transferAt(1, zeroAddress, alice, 2000n * USDC);
+    const transfer = transferAt(2, alice, bob, 1500n * USDC, { logIndex: 3 });
+
+    let mockDb = MockDb.createMockDb();
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    mockDb = await ERC20.Transfer.processEvent({ event: transfer, mockDb });
+    // The same log again (handler re-run / reorg replay)
+    mockDb = await ERC20.Transfer.processEvent({ event: transfer, mockDb });
+
+    const alerts = mockDb.entities.Alert.getAll();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      id: `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-2-3-LARGE_TRANSFER`,
+      kind: "LARGE_TRANSFER",
+      from: alice,
+      to: bob,
+      value: 1500n * USDC,
+    });
+    expect(alerts[0]?.valueNormalized?.toString()).toBe("1500");
+  });
+
+  it("Fires a holder count swing once per day", async () => {
+    vi.stubEnv("ALERT_HOLDER_SWING", "2");
+
+    let mockDb = MockDb.createMockDb();
+    for (const [i, holder] of Addresses.mockAddresses.slice(0, 3).entries()) {
+      mockDb = await ERC20.Transfer.processEvent({ event: transferAt(10 + i, zeroAddress, holder, USDC), mockDb });
+    }
+
+    const alerts = mockDb.entities.Alert.getAll();
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ kind: "HOLDER_COUNT_SWING", blockNumber: 11, holderCount: 2, holderCountChange: 2 });
+  });
+});
+
+describe("Unit: Anomalies", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const USDC = 1_000000n;
+  const firstDay = 20_200;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // A mint, then a week of 100 / 120 USDC days
+  const quietWeek = async () => {
+    let mockDb = MockDb.createMockDb();
+    const mint = transferAt(1, zeroAddress, alice, 10_000n * USDC, { dayId: firstDay });
+    mockDb = await ERC20.Transfer.processEvent({ event: mint, mockDb });
+    for (let day = 1; day <= 7; day++) {
+      const transfer = transferAt(1 + day, alice, bob, (day % 2 === 0 ? 120n : 100n) * USDC, { dayId: firstDay + day });
+      mockDb = await ERC20.Transfer.processEvent({ event: transfer, mockDb });
+    }
+    return mockDb;
+  };
+
+  it("Keeps 7 and 30 day baselines of the closed days", async () => {
+    const mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(9, alice, bob, 100n * USDC, { dayId: firstDay + 8 }),
+      mockDb: await quietWeek(),
+    });
+
+    const weekly = mockDb.entities.DailyRollingStats.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${firstDay + 8}-7`);
+    expect(weekly).toMatchObject({ dayId: firstDay + 8, window: 7, days: 7 });
+    // 100, 120, 100, 120, 100, 120, 100
+    expect(weekly?.volumeMean.toFixed(4)).toBe("108.5714");
+    expect(weekly?.volumeStdDev.toFixed(4)).toBe("9.8974");
+    expect(weekly?.transferCountStdDev.toString()).toBe("0");
+
+    // The mint day is only in the 30 day window, which isn't full yet
+    const monthly = mockDb.entities.DailyRollingStats.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${firstDay + 8}-30`);
+    expect(monthly).toMatchObject({ window: 30, days: 8 });
+    expect(monthly?.supplyChangeMean.toString()).toBe("1250");
+    expect(mockDb.entities.Anomaly.getAll()).toHaveLength(0);
+  });
+
+  it("Flags a volume spike once per day and keeps its peak score", async () => {
+    let mockDb = await quietWeek();
+    for (const event of [
+      transferAt(9, alice, bob, 200n * USDC, { dayId: firstDay + 8 }),
+      transferAt(10, bob, alice, 300n * USDC, { dayId: firstDay + 8 }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    // Transfer count and active addresses didn't vary over the week, so only volume is scored
+    const anomalies = mockDb.entities.Anomaly.getAll();
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      id: `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${firstDay + 8}-VOLUME-7`,
+      metric: "VOLUME",
+      window: 7,
+      detectedBlock: 9,
+      lastUpdatedTimestamp: (firstDay + 8) * 86400 + 10,
+    });
+    expect(anomalies[0]?.value.toString()).toBe("500");
+    expect(anomalies[0]?.zScore.toFixed(2)).toBe("39.55");
+    expect(anomalies[0]?.threshold.toString()).toBe("3");
+  });
+
+  it("Doesn't flag a day that opens small and closes normal", async () => {
+    let mockDb = await quietWeek();
+    for (const event of [
+      transferAt(9, alice, bob, 1n * USDC, { dayId: firstDay + 8 }),
+      transferAt(10, alice, bob, 107n * USDC, { dayId: firstDay + 8 }),
+      // The next day closes it at 108 USDC
+      transferAt(11, alice, bob, 100n * USDC, { dayId: firstDay + 9 }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    expect(mockDb.entities.Anomaly.getAll()).toHaveLength(0);
+  });
+
+  it("Flags a quiet day once it closes", async () => {
+    let mockDb = await quietWeek();
+    const quietDay = transferAt(9, alice, bob, 1n * USDC, { dayId: firstDay + 8 });
+    mockDb = await ERC20.Transfer.processEvent({ event: quietDay, mockDb });
+    expect(mockDb.entities.Anomaly.getAll()).toHaveLength(0);
+
+    const nextDay = transferAt(10, alice, bob, 100n * USDC, { dayId: firstDay + 9 });
+    mockDb = await ERC20.Transfer.processEvent({ event: nextDay, mockDb });
+
+    const anomalies = mockDb.entities.Anomaly.getAll();
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({
+      id: `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${firstDay + 8}-VOLUME-7`,
+      dayId: firstDay + 8,
+      detectedBlock: 10,
+    });
+    expect(anomalies[0]?.value.toString()).toBe("1");
+    expect(anomalies[0]?.zScore.toFixed(2)).toBe("-10.87");
+  });
+
+  it("Scores later movements of the day against the stored baselines", async () => {
+    let mockDb = await quietWeek();
+    mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(9, alice, bob, 100n * USDC, { dayId: firstDay + 8 }),
+      mockDb,
+    });
+    const statsId = `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${firstDay + 8}-7`;
+    const stats = mockDb.entities.DailyRollingStats.get(statsId)!;
+    mockDb = mockDb.entities.DailyRollingStats.set({
+      ...stats,
+      volumeMean: new BigDecimal(50),
+      volumeStdDev: new BigDecimal(10),
+    });
+
+    mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(10, alice, bob, 10n * USDC, { dayId: firstDay + 8 }),
+      mockDb,
+    });
+
+    // 110 USDC against the stored 50 ± 10, not the week's 108.57 ± 9.90
+    const anomaly = mockDb.entities.Anomaly.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${firstDay + 8}-VOLUME-7`);
+    expect(anomaly?.zScore.toString()).toBe("6");
+  });
+
+  it("Uses the per-token z-score", async () => {
+    vi.stubEnv("ANOMALY_Z_SCORE_OVERRIDES", `${MOCK_CHAIN_ID}-${USDC_ADDRESS}=off`);
+
+    const mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(9, alice, bob, 1000n * USDC, { dayId: firstDay + 8 }),
+      mockDb: await quietWeek(),
+    });
+
+    expect(mockDb.entities.Anomaly.getAll()).toHaveLength(0);
+    // Baselines are still kept
+    expect(mockDb.entities.DailyRollingStats.getAll()).not.toHaveLength(0);
+  });
+});
+
+describe("Unit: Rolling windows", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const carol = Addresses.mockAddresses[2]!;
+  const firstDay = 20_300;
+  const windowId = (dayId: number, window: number) => `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${dayId}-${window}`;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("Keeps trailing volume, velocity and distinct addresses per window", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const event of [
+      transferAt(1, zeroAddress, alice, 1000n, { dayId: firstDay }),
+      transferAt(2, alice, bob, 100n, { dayId: firstDay + 1 }),
+      transferAt(3, bob, carol, 50n, { dayId: firstDay + 3 }),
+      transferAt(4, carol, alice, 20n, { dayId: firstDay + 8 }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    // Days 2-8: carol is active on two of them but counted once
+    expect(mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 8, 7))).toMatchObject({
+      volume: 70n,
+      transferCount: 2,
+      uniqueActiveAddresses: 3,
+      endSupply: 1000n,
+    });
+    expect(mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 8, 30))).toMatchObject({
+      volume: 1170n,
+      transferCount: 4,
+      uniqueActiveAddresses: 3,
+    });
+
+    const sameDay = transferAt(5, alice, bob, 10n, { dayId: firstDay + 8 });
+    mockDb = await ERC20.Transfer.processEvent({ event: sameDay, mockDb });
+
+    const weekly = mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 8, 7));
+    expect(weekly).toMatchObject({ volume: 80n, transferCount: 3, uniqueActiveAddresses: 3 });
+    expect(weekly?.velocity.toString()).toBe("0.08");
+    expect(weekly?.volumeNormalized.toString()).toBe("0.00008");
+  });
+
+  it("Drops addresses once their last activity leaves the window", async () => {
+    let mockDb = MockDb.createMockDb();
+    for (const event of [
+      transferAt(1, zeroAddress, alice, 1000n, { dayId: firstDay }),
+      transferAt(2, alice, bob, 100n, { dayId: firstDay + 1 }),
+      transferAt(3, bob, carol, 10n, { dayId: firstDay + 10 }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    // Alice was last active on day 1
+    expect(mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 10, 7))).toMatchObject({
+      volume: 10n,
+      uniqueActiveAddresses: 2,
+    });
+    expect(mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 10, 30))).toMatchObject({
+      volume: 1110n,
+      uniqueActiveAddresses: 3,
+    });
+  });
+
+  it("Merges the daily sketches without per-address rows in hll mode", async () => {
+    vi.stubEnv("UNIQUE_ADDRESS_COUNTER", "hll");
+
+    let mockDb = MockDb.createMockDb();
+    for (const event of [
+      transferAt(1, zeroAddress, alice, 1000n, { dayId: firstDay }),
+      transferAt(2, alice, bob, 100n, { dayId: firstDay + 1 }),
+      transferAt(3, bob, carol, 10n, { dayId: firstDay + 10 }),
+      transferAt(4, carol, bob, 5n, { dayId: firstDay + 10 }),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    expect(mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 10, 7))).toMatchObject({
+      transferCount: 2,
+      uniqueActiveAddresses: 2,
+    });
+    expect(mockDb.entities.RollingWindowSnapshot.get(windowId(firstDay + 10, 30))).toMatchObject({
+      transferCount: 4,
+      uniqueActiveAddresses: 3,
+    });
+    // One merged sketch per day and window, written by the day's first movement
+    expect(mockDb.entities.RollingClosedDaysSketch.getAll()).toHaveLength(6);
+    expect(mockDb.entities.RollingActiveAddress.getAll()).toHaveLength(0);
+    expect(mockDb.entities.RollingWindowState.getAll()).toHaveLength(0);
+    expect(mockDb.entities.PeriodActiveAddress.getAll()).toHaveLength(0);
+  });
+});
+
+describe("Unit: Unique address counter", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const alice = Addresses.mockAddresses[0]!;
+  const bob = Addresses.mockAddresses[1]!;
+  const carol = Addresses.mockAddresses[2]!;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  // Sequential addresses, the worst case for a weak hash
+  const addressesOf = (count: number) =>
+    Array.from({ length: count }, (_, i) => `0x${i.toString(16).padStart(40, "0")}`);
+
+  const exactCount = async (addresses: string[]) => {
+    const markers = new Map<string, { id: string }>();
+    const entity = {
+      get: async (id: string) => markers.get(id),
+      set: (marker: { id: string }) => void markers.set(marker.id, marker),
+    };
+    let count = 0;
+    for (let i = 0; i < addresses.length; i += 2) count += (await trackUniques(entity, addresses.slice(i, i + 2))).length;
+    return count;
+  };
+
+  it("Stays within 5% (about 3 standard errors) of the exact markers", async () => {
+    for (const size of [1_000, 20_000, 100_000]) {
+      // Every address twice, as sender and later as receiver
+      const addresses = addressesOf(size);
+      const seen = [...addresses, ...addresses];
+      const exact = await exactCount(seen);
+      const estimate = estimateCardinality(addToSketch(emptySketch(), seen));
+      expect(exact).toBe(size);
+      expect(Math.abs(estimate - exact) / exact).toBeLessThan(0.05);
+    }
+  });
+
+  it("Stores a register per base64url digit once the sketch fills up", async () => {
+    const small = addToSketch(emptySketch(), addressesOf(100));
+    const large = addToSketch(small, addressesOf(20_000));
+    expect(small.length).toBeLessThan(300);
+    expect(large).toHaveLength(4096);
+    expect(large).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(mergeSketches([small, large])).toBe(large);
+  });
+
+  it("Is exact for a small day", async () => {
+    for (const size of [1, 10, 100]) {
+      const estimate = estimateCardinality(addToSketch(emptySketch(), addressesOf(size)));
+      expect(Math.abs(estimate - size)).toBeLessThanOrEqual(size === 100 ? 1 : 0);
+    }
+  });
+
+  it("Counts from the snapshot sketch without marker rows in hll mode", async () => {
+    vi.stubEnv("UNIQUE_ADDRESS_COUNTER", "hll");
+    vi.stubEnv("PERIOD_SNAPSHOTS", "WEEK");
+
+    let mockDb = MockDb.createMockDb();
+    const transfers: [typeof alice, typeof alice][] = [
+      [zeroAddress, alice],
+      [alice, bob],
+      [bob, alice],
+      [alice, carol],
+    ];
+    for (const [i, [from, to]] of transfers.entries()) {
+      mockDb = await ERC20.Transfer.processEvent({ event: transferAt(1 + i, from, to, 1n), mockDb });
+    }
+
+    const [daily] = mockDb.entities.DailySnapshot.getAll();
+    const [weekly] = mockDb.entities.PeriodSnapshot.getAll();
+    expect(daily?.uniqueActiveAddresses).toBe(3);
+    // Sparse while small: three digits for each of the three set registers
+    expect(daily?.activeAddressSketch).toHaveLength(9);
+    expect(weekly?.uniqueActiveAddresses).toBe(3);
+    expect(mockDb.entities.PeriodActiveAddress.getAll()).toHaveLength(0);
+    expect(mockDb.entities.RollingActiveAddress.getAll()).toHaveLength(0);
+  });
+});
+
+describe("Unit: Alert worker", () => {
+  const now = 1_750_000_000_000;
+  const settled = now / 1000 - 600;
+  const alerts = [
+    { id: "130-0xusdc-7-0-LARGE_TRANSFER", blockTimestamp: settled - 10, kind: "LARGE_TRANSFER", value: "5" },
+    { id: "130-0xusdc-8-1-LARGE_MINT", blockTimestamp: settled, kind: "LARGE_MINT", value: "9" },
+    // Not past ALERT_DELAY_SECONDS yet
+    { id: "130-0xusdc-9-0-LARGE_BURN", blockTimestamp: now / 1000 - 10, kind: "LARGE_BURN", value: "1" },
+  ];
+
+  // Local stand-in for the GraphQL API and two webhooks; /flaky fails `flakyFailures` times
+  const received: { path: string; idempotencyKey: string | undefined; body: { id: string } }[] = [];
+  let flakyFailures = 0;
+  let baseUrl = "";
+
+  const readBody = async (request: IncomingMessage) => {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    return JSON.parse(body);
+  };
+
+  const server = createServer(async (request, response) => {
+    const body = await readBody(request);
+    if (request.url === "/graphql") {
+      const { since, until, limit, offset } = body.variables;
+      const rows = alerts
+        .filter((alert) => alert.blockTimestamp >= since && alert.blockTimestamp <= until)
+        .slice(offset, offset + limit);
+      response.setHeader("content-type", "application/json");
+      response.end(JSON.stringify({ data: { Alert: rows } }));
+      return;
+    }
+    if (request.url === "/flaky" && flakyFailures > 0) {
+      flakyFailures--;
+      response.statusCode = 503;
+      response.end();
+      return;
+    }
+    const key = request.headers["idempotency-key"];
+    received.push({ path: request.url!, idempotencyKey: typeof key === "string" ? key : undefined, body });
+    response.end();
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    flakyFailures = 0;
+  });
+
+  const workerConfig = (): AlertWorkerConfig => ({
+    graphqlUrl: `${baseUrl}/graphql`,
+    graphqlSecret: undefined,
+    webhookUrls: [`${baseUrl}/ops`, `${baseUrl}/flaky`],
+    stateFile: join(mkdtempSync(join(tmpdir(), "alert-worker-")), "state.json"),
+    delaySeconds: 300,
+    lookbackSeconds: 3600,
+    maxAttempts: 3,
+    retryDelayMs: 1,
+    pollIntervalMs: 1,
+    batchSize: 1,
+  });
+
+  it("Delivers settled alerts to every webhook once, retrying failures", async () => {
+    const config = workerConfig();
+    flakyFailures = 2;
+
+    expect(await deliverPending(config, now)).toEqual({ sent: 4, complete: true });
+    expect(received.map((delivery) => `${delivery.path} ${delivery.body.id}`)).toEqual([
+      "/ops 130-0xusdc-7-0-LARGE_TRANSFER",
+      "/flaky 130-0xusdc-7-0-LARGE_TRANSFER",
+      "/ops 130-0xusdc-8-1-LARGE_MINT",
+      "/flaky 130-0xusdc-8-1-LARGE_MINT",
+    ]);
+    expect(received[0]?.idempotencyKey).toBe("130-0xusdc-7-0-LARGE_TRANSFER");
+
+    // Next poll (or a restart): nothing new is settled, nothing is re-sent
+    received.length = 0;
+    expect(await deliverPending(config, now + 1000)).toEqual({ sent: 0, complete: true });
+    expect(received).toHaveLength(0);
+  });
+
+  it("Stops at a webhook that keeps failing and resumes without duplicates", async () => {
+    const config = workerConfig();
+    flakyFailures = 3;
+
+    expect(await deliverPending(config, now)).toEqual({ sent: 1, complete: false });
+    expect(received.map((delivery) => delivery.path)).toEqual(["/ops"]);
+
+    received.length = 0;
+    expect(await deliverPending(config, now)).toEqual({ sent: 3, complete: true });
+    expect(received.map((delivery) => `${delivery.path} ${delivery.body.id}`)).toEqual([
+      "/flaky 130-0xusdc-7-0-LARGE_TRANSFER",
+      "/ops 130-0xusdc-8-1-LARGE_MINT",
+      "/flaky 130-0xusdc-8-1-LARGE_MINT",
+    ]);
+  });
+});
+
+describe("Unit: Account types", () => {
+  const zeroAddress = "0x0000000000000000000000000000000000000000";
+  const wallet = Addresses.mockAddresses[3]!;
+  const pool = Addresses.mockAddresses[4]!;
+  const multisig = Addresses.mockAddresses[5]!;
+  const delegated = Addresses.mockAddresses[6]!;
+  const accountId = (address: string) => `${MOCK_CHAIN_ID}-${USDC_ADDRESS}-${address}`;
+
+  // Safe v1.3.0 proxy runtime code, without its metadata
+  const safeProxyCode =
+    "0x608060405273ffffffffffffffffffffffffffffffffffffffff600054167fa619486e00000000000000000000000000000000" +
+    "00000000000000000000000060003514156050578060005260206000f35b3660008037600080366000845af43d6000803e600081" +
+    "14156070573d6000fd5b3d6000f3fe";
+
+  // Local JSON-RPC stand-in answering eth_getCode
+  const code: Record<string, string> = {
+    [pool.toLowerCase()]: "0x608060405234801561001057600080fd5b50",
+    [multisig.toLowerCase()]: safeProxyCode,
+    [delegated.toLowerCase()]: `0xef0100${"11".repeat(20)}`,
+  };
+  const lookups: string[] = [];
+  let rpcUrl = "";
+
+  const server = createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) body += chunk;
+    const { id, method, params } = JSON.parse(body) as { id: number; method: string; params: [string, string] };
+    lookups.push(params[0]);
+    response.setHeader("content-type", "application/json");
+    if (method !== "eth_getCode") {
+      response.end(JSON.stringify({ jsonrpc: "2.0", id, error: { message: `unexpected ${method}` } }));
+      return;
+    }
+    response.end(JSON.stringify({ jsonrpc: "2.0", id, result: code[params[0].toLowerCase()] ?? "0x" }));
+  });
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    lookups.length = 0;
+  });
+
+  it("Types new accounts and splits supply and volume between EOAs and contracts", async () => {
+    vi.stubEnv("ACCOUNT_TYPES", "rpc");
+    vi.stubEnv(`RPC_URL_${MOCK_CHAIN_ID}`, rpcUrl);
+
+    let mockDb = MockDb.createMockDb();
+    for (const event of [
+      transferAt(1, zeroAddress, wallet, 1000n),
+      transferAt(2, wallet, pool, 300n),
+      transferAt(3, pool, multisig, 100n),
+      transferAt(4, wallet, delegated, 50n),
+      transferAt(5, wallet, pool, 0n),
+    ]) {
+      mockDb = await ERC20.Transfer.processEvent({ event, mockDb });
+    }
+
+    // Looked up once, when the Account is created
+    expect(lookups).toHaveLength(4);
+    expect(mockDb.entities.Account.get(accountId(wallet))?.accountType).toBe("EOA");
+    expect(mockDb.entities.Account.get(accountId(pool))?.accountType).toBe("CONTRACT");
+    expect(mockDb.entities.Account.get(accountId(multisig))?.accountType).toBe("SAFE");
+    expect(mockDb.entities.Account.get(accountId(delegated))?.accountType).toBe("DELEGATED_EOA");
+
+    // Wallet 650 + delegated 50 vs pool 200 + multisig 100; the mint has no sender
+    expect(mockDb.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`)).toMatchObject({
+      eoaSupply: 700n,
+      contractSupply: 300n,
+      eoaVolume: 350n,
+      contractVolume: 100n,
+    });
+    const [daily] = mockDb.entities.DailySnapshot.getAll();
+    expect(daily).toMatchObject({
+      eoaSupply: 700n,
+      contractSupply: 300n,
+      dailyEoaVolume: 350n,
+      dailyContractVolume: 100n,
+    });
+  });
+
+  it("Makes no lookups by default", async () => {
+    const mockDb = await ERC20.Transfer.processEvent({
+      event: transferAt(1, zeroAddress, wallet, 1000n),
+      mockDb: MockDb.createMockDb(),
+    });
+
+    expect(lookups).toHaveLength(0);
+    expect(mockDb.entities.Account.get(accountId(wallet))?.accountType).toBeUndefined();
+    expect(mockDb.entities.TokenSupply.get(`${MOCK_CHAIN_ID}-${USDC_ADDRESS}-supply`)?.eoaSupply).toBe(0n);
+  });
+
+  it("Only types the Safe proxy itself as a Safe", () => {
+    expect(decodeAccountType(safeProxyCode)).toBe("SAFE");
+    // A contract that calls masterCopy() on Safes pushes the same selector
+    expect(decodeAccountType("0x6080604052348015600f57600080fd5b5063a619486e60e01b")).toBe("CONTRACT");
+  });
 });
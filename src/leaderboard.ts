@@ -0,0 +1,128 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { getLeaderboardSize } from "./config.js";
+import type { BalanceChange } from "./types.js";
+
+// Bounded per-token board of the largest holders (LEADERBOARD_SIZE), re-ranked
+// from the balance changes of each movement.
+
+/** Balance changes of a movement, and its position in the chain for LeaderboardChange ids. */
+export type LeaderboardActivity = {
+  chainId: number;
+  token: string;
+  blockNumber: number;
+  ts: number;
+  logIndex: number;
+  txHash: string;
+  balanceChanges: BalanceChange[];
+  totalSupply: bigint;       // token supply after the movement
+  supplyChanged: boolean;    // mints/burns move every member's share
+};
+
+/** Share of supply held by the top 10 / top 100 after the movement. */
+export type Concentration = { top10Share: BigDecimal; top100Share: BigDecimal };
+
+type LeaderboardChangeType = "ENTERED" | "EXITED" | "RANK_CHANGED";
+
+type Entry = { address: string; balance: bigint };
+
+export function getLeaderboardId(chainId: number, token: string): string {
+  return `${chainId}-${token}`;
+}
+
+function supplyShare(balance: bigint, totalSupply: bigint): BigDecimal {
+  if (totalSupply <= 0n) return new BigDecimal(0);
+  return new BigDecimal(balance.toString()).dividedBy(new BigDecimal(totalSupply.toString()));
+}
+
+function topShare(entries: Entry[], count: number, totalSupply: bigint): BigDecimal {
+  const held = entries.slice(0, count).reduce((sum, entry) => sum + entry.balance, 0n);
+  return supplyShare(held, totalSupply);
+}
+
+/**
+ * Re-rank the accounts touched by a movement, record entries, exits and rank
+ * moves as LeaderboardChange, and return the resulting concentration.
+ */
+export async function updateLeaderboard(
+  context: HandlerContext,
+  activity: LeaderboardActivity,
+): Promise<Concentration> {
+  const { chainId, token, blockNumber, ts, logIndex, txHash, totalSupply } = activity;
+  const id = getLeaderboardId(chainId, token);
+  const board = await context.Leaderboard.get(id);
+
+  const previous: Entry[] = board
+    ? board.holders.map((address, i) => ({ address, balance: board.balances[i]! }))
+    : [];
+  const oldRanks = new Map(previous.map((entry, i) => [entry.address, i + 1]));
+
+  // Last change wins, in case both sides of the movement are the same address
+  const newBalances = new Map(activity.balanceChanges.map((change) => [change.address, change.newBalance]));
+
+  const candidates = previous.filter((entry) => !newBalances.has(entry.address));
+  for (const [address, balance] of newBalances) {
+    if (balance > 0n) candidates.push({ address, balance });
+  }
+  // Stable sort: on equal balances the existing member keeps the higher rank
+  candidates.sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+  const entries = candidates.slice(0, getLeaderboardSize());
+  const newRanks = new Map(entries.map((entry, i) => [entry.address, i + 1]));
+
+  const recordChange = (
+    account: string,
+    changeType: LeaderboardChangeType,
+    balance: bigint,
+    oldRank: number | undefined,
+    newRank: number | undefined,
+  ) => {
+    context.LeaderboardChange.set({
+      id: `${chainId}-${token}-${blockNumber}-${logIndex}-${account}`,
+      chainId,
+      token,
+      account,
+      changeType,
+      oldRank,
+      newRank,
+      balance,
+      blockNumber,
+      blockTimestamp: ts,
+      txHash,
+    });
+  };
+
+  let changed = false;
+  for (const [address, balance] of newBalances) {
+    const oldRank = oldRanks.get(address);
+    const newRank = newRanks.get(address);
+    if (oldRank === undefined && newRank === undefined) continue;
+    changed = true;
+    if (oldRank === undefined) recordChange(address, "ENTERED", balance, oldRank, newRank);
+    else if (newRank === undefined) recordChange(address, "EXITED", balance, oldRank, newRank);
+    else if (oldRank !== newRank) recordChange(address, "RANK_CHANGED", balance, oldRank, newRank);
+  }
+  // Members pushed off the tail by someone entering
+  for (const { address, balance } of previous) {
+    if (!newBalances.has(address) && !newRanks.has(address)) {
+      changed = true;
+      recordChange(address, "EXITED", balance, oldRanks.get(address), undefined);
+    }
+  }
+
+  if (changed || (activity.supplyChanged && entries.length > 0)) {
+    context.Leaderboard.set({
+      id,
+      chainId,
+      token,
+      holders: entries.map((entry) => entry.address),
+      balances: entries.map((entry) => entry.balance),
+      supplyShares: entries.map((entry) => supplyShare(entry.balance, totalSupply)),
+      lastUpdatedBlock: blockNumber,
+      lastUpdatedTimestamp: ts,
+    });
+  }
+
+  return {
+    top10Share: topShare(entries, 10, totalSupply),
+    top100Share: topShare(entries, 100, totalSupply),
+  };
+}
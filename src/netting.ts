@@ -0,0 +1,58 @@
+import type { HandlerContext } from "generated";
+
+/** One transfer within a transaction. */
+export type NettingActivity = {
+  chainId: number;
+  token: string;
+  txHash: string;
+  from: string;
+  to: string;
+  value: bigint;
+};
+
+export type NettingResult = {
+  adjustedDelta: bigint;       // change in the transaction's adjusted volume, can be negative
+  isNewTransaction: boolean;   // first transfer of the token in this transaction
+};
+
+const positive = (amount: bigint) => (amount > 0n ? amount : 0n);
+
+/**
+ * Add a transfer to its transaction's net flows. Only `from` and `to` change,
+ * so the adjusted volume moves by the change in their positive net flows.
+ */
+export async function applyTransactionNetting(
+  context: HandlerContext,
+  activity: NettingActivity,
+): Promise<NettingResult> {
+  const { chainId, token, txHash, from, to, value } = activity;
+  const id = `${chainId}-${token}`;
+  const current = await context.TransactionNetFlow.get(id);
+  // Still holding the token's previous transaction, which is complete
+  const existing = current?.txHash === txHash ? current : undefined;
+
+  const addresses = existing ? [...existing.addresses] : [];
+  const netFlows = existing ? [...existing.netFlows] : [];
+  let adjustedDelta = 0n;
+  const move = (address: string, amount: bigint) => {
+    let i = addresses.indexOf(address);
+    if (i === -1) {
+      i = addresses.push(address) - 1;
+      netFlows.push(0n);
+    }
+    const before = netFlows[i]!;
+    netFlows[i] = before + amount;
+    adjustedDelta += positive(before + amount) - positive(before);
+  };
+  move(from, -value);
+  move(to, value);
+
+  context.TransactionNetFlow.set({
+    id,
+    txHash,
+    addresses,
+    netFlows,
+    adjustedVolume: (existing?.adjustedVolume ?? 0n) + adjustedDelta,
+  });
+  return { adjustedDelta, isNewTransaction: !existing };
+}
@@ -0,0 +1,81 @@
+import type { HandlerContext } from "generated";
+import { getAddressLabel, getPairFlowMinTokens, getPairFlowTopN } from "./config.js";
+import { getLeaderboardId } from "./leaderboard.js";
+import { DAY } from "./periods.js";
+
+// AccountPairFlow and AccountPairDailyFlow: directional volume between two
+// addresses, kept only for pairs that are significant (see config).
+
+/** A transfer between two non-zero addresses. */
+export type PairFlowActivity = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  ts: number;
+  from: string;
+  to: string;
+  value: bigint;
+};
+
+async function isSignificant(context: HandlerContext, activity: PairFlowActivity): Promise<boolean> {
+  const { chainId, token, decimals, from, to, value } = activity;
+  if (value >= getPairFlowMinTokens() * 10n ** BigInt(decimals)) return true;
+  if (getAddressLabel(chainId, from) || getAddressLabel(chainId, to)) return true;
+
+  const topN = getPairFlowTopN();
+  if (topN === 0) return false;
+  const board = await context.Leaderboard.get(getLeaderboardId(chainId, token));
+  const top = board?.holders.slice(0, topN) ?? [];
+  return top.includes(from) || top.includes(to);
+}
+
+/**
+ * Add a transfer to its pair's AccountPairFlow and the day's
+ * AccountPairDailyFlow. A pair is stored as (addressA, addressB) with
+ * addressA < addressB, so both directions share one row.
+ */
+export async function updatePairFlow(context: HandlerContext, activity: PairFlowActivity): Promise<void> {
+  const { chainId, token, ts, from, to, value } = activity;
+  if (from === to) return;
+
+  const isAToB = from.toLowerCase() < to.toLowerCase();
+  const [addressA, addressB] = isAToB ? [from, to] : [to, from];
+  const id = `${chainId}-${token}-${addressA}-${addressB}`;
+  const pair = await context.AccountPairFlow.get(id);
+  if (!pair && !(await isSignificant(context, activity))) return;
+
+  const aToB = isAToB ? value : 0n;
+  const bToA = isAToB ? 0n : value;
+
+  context.AccountPairFlow.set({
+    id,
+    chainId,
+    token,
+    addressA,
+    addressB,
+    volumeAToB: (pair?.volumeAToB ?? 0n) + aToB,
+    volumeBToA: (pair?.volumeBToA ?? 0n) + bToA,
+    transfersAToB: (pair?.transfersAToB ?? 0) + (isAToB ? 1 : 0),
+    transfersBToA: (pair?.transfersBToA ?? 0) + (isAToB ? 0 : 1),
+    totalVolume: (pair?.totalVolume ?? 0n) + value,
+    firstInteractionTimestamp: pair?.firstInteractionTimestamp ?? ts,
+    lastInteractionTimestamp: ts,
+  });
+
+  const dayId = Math.floor(ts / DAY);
+  const dailyId = `${id}-${dayId}`;
+  const daily = await context.AccountPairDailyFlow.get(dailyId);
+  context.AccountPairDailyFlow.set({
+    id: dailyId,
+    chainId,
+    token,
+    addressA,
+    addressB,
+    dayId,
+    volumeAToB: (daily?.volumeAToB ?? 0n) + aToB,
+    volumeBToA: (daily?.volumeBToA ?? 0n) + bToA,
+    transfersAToB: (daily?.transfersAToB ?? 0) + (isAToB ? 1 : 0),
+    transfersBToA: (daily?.transfersBToA ?? 0) + (isAToB ? 0 : 1),
+    totalVolume: (daily?.totalVolume ?? 0n) + value,
+  });
+}
@@ -0,0 +1,178 @@
+import { BigDecimal, type HandlerContext } from "generated";
+import { getPeriodRollups, getUniqueAddressCounter, type PeriodRollup, type SnapshotPeriod } from "./config.js";
+import { addToSketch, emptySketch, estimateCardinality } from "./hyperLogLog.js";
+
+export const HOUR = 3600;
+export const DAY = 86400;
+export const WEEK = 604800;
+
+export const PERIOD_SECONDS: Record<SnapshotPeriod, number> = { HOUR, DAY, WEEK };
+
+// Token column value for rollups across all tokens on a chain
+export const CROSS_TOKEN_SCOPE = "all";
+
+/**
+ * Compute velocity as volume / supply. Returns BigDecimal.
+ * Returns 0 if supply is zero.
+ */
+export function computeVelocity(volume: bigint, supply: bigint): BigDecimal {
+  if (supply === 0n) return new BigDecimal(0);
+  return new BigDecimal(volume.toString()).dividedBy(new BigDecimal(supply.toString()));
+}
+
+/**
+ * Marker id for deduplicating active addresses. `scope` is a token address
+ * or CROSS_TOKEN_SCOPE.
+ */
+export function getActiveAddressId(
+  chainId: number,
+  scope: string,
+  period: SnapshotPeriod,
+  periodId: number,
+  address: string,
+): string {
+  return `${chainId}-${scope}-${period}-${periodId}-${address}`;
+}
+
+/**
+ * Track unique addresses for a time period, fetching their markers together.
+ * Returns the ids that appear in the period for the first time.
+ */
+export async function trackUniques(
+  entity: { get: (id: string) => Promise<{ id: string } | undefined>; set: (v: { id: string }) => void },
+  ids: string[],
+): Promise<string[]> {
+  const unique = [...new Set(ids)];
+  const existing = await Promise.all(unique.map((id) => entity.get(id)));
+  const added = unique.filter((_, i) => !existing[i]);
+  for (const id of added) entity.set({ id });
+  return added;
+}
+
+/** A period row's unique active addresses, and its sketch in hll mode. */
+export type ActiveAddressCount = { uniqueActiveAddresses: number; activeAddressSketch: string | undefined };
+
+/**
+ * Count a movement's addresses into a period row (DailySnapshot or
+ * PeriodSnapshot, undefined before its first movement) by UNIQUE_ADDRESS_COUNTER.
+ * `firstActive` lists the addresses new to the period; hll mode can't tell and leaves it empty.
+ */
+export async function countActiveAddresses(
+  context: HandlerContext,
+  { chainId, scope, period, periodId }: { chainId: number; scope: string; period: SnapshotPeriod; periodId: number },
+  addresses: string[],
+  snapshot: { uniqueActiveAddresses: number; activeAddressSketch: string | undefined } | undefined,
+): Promise<{ count: ActiveAddressCount; firstActive: string[] }> {
+  if (getUniqueAddressCounter() === "hll") {
+    const sketch = addToSketch(snapshot?.activeAddressSketch ?? emptySketch(), addresses);
+    const count = { uniqueActiveAddresses: estimateCardinality(sketch), activeAddressSketch: sketch };
+    return { count, firstActive: [] };
+  }
+  const unique = [...new Set(addresses)];
+  const ids = unique.map((address) => getActiveAddressId(chainId, scope, period, periodId, address));
+  const added = new Set(await trackUniques(context.PeriodActiveAddress, ids));
+  const uniqueActiveAddresses = (snapshot?.uniqueActiveAddresses ?? 0) + added.size;
+  const count = { uniqueActiveAddresses, activeAddressSketch: undefined };
+  return { count, firstActive: unique.filter((_, i) => added.has(ids[i]!)) };
+}
+
+/** Amounts and addresses of a movement, added to each enabled period's open row. */
+export type PeriodActivity = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  blockNumber: number;
+  ts: number;
+  value: bigint;
+  mintVal: bigint;
+  burnVal: bigint;
+  addresses: string[];       // non-zero addresses on either side
+  totalSupply: bigint;       // token supply after the movement
+};
+
+/**
+ * Roll the activity into every PeriodSnapshot enabled by PERIOD_SNAPSHOTS.
+ */
+export async function updatePeriodSnapshots(context: HandlerContext, activity: PeriodActivity): Promise<void> {
+  for (const rollup of getPeriodRollups()) {
+    await updatePeriodSnapshot(context, rollup, activity);
+  }
+}
+
+async function updatePeriodSnapshot(
+  context: HandlerContext,
+  { period, crossToken }: PeriodRollup,
+  activity: PeriodActivity,
+): Promise<void> {
+  const { chainId, decimals, blockNumber, value, mintVal, burnVal } = activity;
+  const length = PERIOD_SECONDS[period];
+  const periodId = Math.floor(activity.ts / length);
+  const scope = crossToken ? CROSS_TOKEN_SCOPE : activity.token;
+  const isMint = mintVal > 0n;
+  const isBurn = burnVal > 0n;
+  const netFlow = mintVal - burnVal;
+
+  // Base-unit amounts, supply and velocity only make sense per token (decimals
+  // differ across tokens); cross-token rows only sum the whole-token amounts
+  const supply = crossToken ? undefined : activity.totalSupply;
+  const toWhole = (amount: bigint) => new BigDecimal(amount.toString()).shiftedBy(-decimals);
+  const normalized = {
+    volume: toWhole(value),
+    mintVolume: toWhole(mintVal),
+    burnVolume: toWhole(burnVal),
+    netMintBurnFlow: toWhole(netFlow),
+  };
+  const baseUnits = (total: bigint | undefined, amount: bigint) => (crossToken ? undefined : (total ?? 0n) + amount);
+
+  const snapshotId = `${chainId}-${scope}-${period}-${periodId}`;
+  const snapshot = await context.PeriodSnapshot.get(snapshotId);
+  const periodScope = { chainId, scope, period, periodId };
+  const { count: active } = await countActiveAddresses(context, periodScope, activity.addresses, snapshot);
+  if (snapshot) {
+    const updatedVolume = baseUnits(snapshot.volume, value);
+    context.PeriodSnapshot.set({
+      ...snapshot,
+      volume: updatedVolume,
+      mintVolume: baseUnits(snapshot.mintVolume, mintVal),
+      burnVolume: baseUnits(snapshot.burnVolume, burnVal),
+      netMintBurnFlow: baseUnits(snapshot.netMintBurnFlow, netFlow),
+      volumeNormalized: snapshot.volumeNormalized.plus(normalized.volume),
+      mintVolumeNormalized: snapshot.mintVolumeNormalized.plus(normalized.mintVolume),
+      burnVolumeNormalized: snapshot.burnVolumeNormalized.plus(normalized.burnVolume),
+      netMintBurnFlowNormalized: snapshot.netMintBurnFlowNormalized.plus(normalized.netMintBurnFlow),
+      transferCount: snapshot.transferCount + 1,
+      mintCount: snapshot.mintCount + (isMint ? 1 : 0),
+      burnCount: snapshot.burnCount + (isBurn ? 1 : 0),
+      ...active,
+      endOfPeriodSupply: supply,
+      velocity:
+        supply === undefined || updatedVolume === undefined ? undefined : computeVelocity(updatedVolume, supply),
+      lastBlockOfPeriod: blockNumber,
+    });
+  } else {
+    context.PeriodSnapshot.set({
+      id: snapshotId,
+      chainId,
+      token: scope,
+      period,
+      periodId,
+      periodStartTimestamp: periodId * length,
+      volume: baseUnits(undefined, value),
+      mintVolume: baseUnits(undefined, mintVal),
+      burnVolume: baseUnits(undefined, burnVal),
+      netMintBurnFlow: baseUnits(undefined, netFlow),
+      volumeNormalized: normalized.volume,
+      mintVolumeNormalized: normalized.mintVolume,
+      burnVolumeNormalized: normalized.burnVolume,
+      netMintBurnFlowNormalized: normalized.netMintBurnFlow,
+      transferCount: 1,
+      mintCount: isMint ? 1 : 0,
+      burnCount: isBurn ? 1 : 0,
+      ...active,
+      endOfPeriodSupply: supply,
+      velocity: supply === undefined ? undefined : computeVelocity(value, supply),
+      firstBlockOfPeriod: blockNumber,
+      lastBlockOfPeriod: blockNumber,
+    });
+  }
+}
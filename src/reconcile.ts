@@ -0,0 +1,75 @@
+import type { HandlerContext, TokenSupply } from "generated";
+import { getReconcileInterval, getReconcileTopAccounts } from "./config.js";
+import { getOnChainBalance, getOnChainTotalSupply } from "./effects.js";
+import { getLeaderboardId } from "./leaderboard.js";
+import { DAY } from "./periods.js";
+
+type DiscrepancyKind = "TOTAL_SUPPLY" | "BALANCE";
+
+/**
+ * Whether a reconciliation is due before applying a movement at `blockNumber`.
+ * Only checked at the token's first movement in a block, when the indexed state
+ * is exactly the state at the end of the previous block.
+ */
+export function isReconciliationDue(supply: TokenSupply | undefined, blockNumber: number, ts: number): boolean {
+  const interval = getReconcileInterval();
+  if (interval.unit === "none") return false;
+  // First movement: catches a start_block after the token already had supply
+  if (!supply) return true;
+  if (blockNumber <= supply.lastUpdatedBlock) return false;
+  if (supply.lastReconciledBlock === undefined || supply.lastReconciledTimestamp === undefined) return true;
+  return interval.unit === "blocks"
+    ? blockNumber - supply.lastReconciledBlock >= interval.every
+    : Math.floor(ts / DAY) - Math.floor(supply.lastReconciledTimestamp / DAY) >= interval.every;
+}
+
+/**
+ * Compare the indexed supply, and the balances of the top RECONCILE_TOP_ACCOUNTS
+ * Leaderboard holders, with the contract at `blockNumber - 1`. Writes a
+ * SupplyDiscrepancy per mismatch; the indexed values are left as they are.
+ */
+export async function reconcileSupply(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  indexedSupply: bigint,
+  blockNumber: number,
+  ts: number,
+): Promise<void> {
+  const checkedBlock = blockNumber - 1;
+  const record = (kind: DiscrepancyKind, account: string | undefined, indexedValue: bigint, onChainValue: bigint) => {
+    if (indexedValue === onChainValue) return;
+    context.SupplyDiscrepancy.set({
+      id: `${chainId}-${token}-${checkedBlock}-${account ?? "supply"}`,
+      chainId,
+      token,
+      kind,
+      account,
+      blockNumber: checkedBlock,
+      blockTimestamp: ts,
+      indexedValue,
+      onChainValue,
+      difference: onChainValue - indexedValue,
+    });
+  };
+
+  const onChainSupply = await context.effect(getOnChainTotalSupply, {
+    chainId,
+    address: token,
+    blockNumber: checkedBlock,
+  });
+  record("TOTAL_SUPPLY", undefined, indexedSupply, BigInt(onChainSupply));
+
+  const topAccounts = getReconcileTopAccounts();
+  if (topAccounts === 0) return;
+  const board = await context.Leaderboard.get(getLeaderboardId(chainId, token));
+  if (!board) return;
+
+  const holders = board.holders.slice(0, topAccounts);
+  const onChainBalances = await Promise.all(
+    holders.map((account) =>
+      context.effect(getOnChainBalance, { chainId, address: token, account, blockNumber: checkedBlock }),
+    ),
+  );
+  holders.forEach((account, i) => record("BALANCE", account, board.balances[i]!, BigInt(onChainBalances[i]!)));
+}
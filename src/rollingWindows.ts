@@ -0,0 +1,144 @@
+import { BigDecimal, type DailySnapshot, type HandlerContext, type RollingWindowState } from "generated";
+import { getUniqueAddressCounter } from "./config.js";
+import { emptySketch, estimateCardinality, mergeSketches } from "./hyperLogLog.js";
+import { computeVelocity } from "./periods.js";
+
+// Trailing 7 / 30 day volume, transfers, velocity and distinct addresses per
+// token, updated in place by each movement instead of summed at query time.
+// Distinct addresses follow UNIQUE_ADDRESS_COUNTER: each address's last active
+// day (exact), or the union of the window's daily sketches (hll).
+
+/** A movement's value and addresses, with today's DailySnapshot to start a new day's windows from. */
+export type RollingWindowActivity = {
+  chainId: number;
+  token: string;
+  decimals: number;
+  value: bigint;
+  firstActiveAddresses: string[];  // active for the first time today; empty in hll mode
+  totalSupply: bigint;       // token supply after the movement
+  daily: DailySnapshot;      // today's row, after the movement
+};
+
+const ROLLING_WINDOWS = [7, 30];
+const STATE_DAYS = Math.max(...ROLLING_WINDOWS);
+
+/** Move the state's last day to `dayId`; counts older than STATE_DAYS fall off. */
+function shiftState(state: RollingWindowState, dayId: number): RollingWindowState {
+  const shift = Math.min(dayId - state.dayId, STATE_DAYS);
+  if (shift <= 0) return state;
+  return {
+    ...state,
+    dayId,
+    lastActiveCounts: [...state.lastActiveCounts.slice(shift), ...new Array<number>(shift).fill(0)],
+  };
+}
+
+/**
+ * Exact mode: move each address active for the first time today from its
+ * previous active day to today, and return the per-day counts ending today.
+ */
+async function updateLastActiveCounts(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  dayId: number,
+  addresses: string[],
+): Promise<number[]> {
+  const stateId = `${chainId}-${token}`;
+  const existing = await context.RollingWindowState.get(stateId);
+  const state = existing
+    ? shiftState(existing, dayId)
+    : { id: stateId, dayId, lastActiveCounts: new Array<number>(STATE_DAYS).fill(0) };
+
+  const lastActiveCounts = [...state.lastActiveCounts];
+  for (const address of addresses) {
+    const id = `${chainId}-${token}-${address}`;
+    const previous = await context.RollingActiveAddress.get(id);
+    // Index of the previous active day; negative once it's older than the state
+    const previousIndex = previous ? STATE_DAYS - 1 - (dayId - previous.lastActiveDayId) : -1;
+    if (previousIndex >= 0) lastActiveCounts[previousIndex]! -= 1;
+    lastActiveCounts[STATE_DAYS - 1]! += 1;
+    context.RollingActiveAddress.set({ id, lastActiveDayId: dayId });
+  }
+  context.RollingWindowState.set({ ...state, lastActiveCounts });
+  return lastActiveCounts;
+}
+
+/**
+ * Volume and transfer count of the `days` closed days before `dayId`, and in
+ * hll mode the union of their address sketches.
+ */
+async function sumClosedDays(
+  context: HandlerContext,
+  chainId: number,
+  token: string,
+  dayId: number,
+  days: number,
+  mergeDailySketches: boolean,
+): Promise<{ volume: bigint; transferCount: number; sketch: string | undefined }> {
+  let volume = 0n;
+  let transferCount = 0;
+  const sketches: string[] = [];
+  for (let day = dayId - days; day < dayId; day++) {
+    // DailySnapshot is gap-free from the token's first event; earlier days had nothing
+    const closed = await context.DailySnapshot.get(`${chainId}-${token}-${day}`);
+    volume += closed?.dailyVolume ?? 0n;
+    transferCount += closed?.dailyTransferCount ?? 0;
+    if (closed?.activeAddressSketch) sketches.push(closed.activeAddressSketch);
+  }
+  return { volume, transferCount, sketch: mergeDailySketches ? mergeSketches(sketches) : undefined };
+}
+
+/**
+ * Update the token's RollingWindowSnapshot rows for today. A day's first
+ * movement starts its rows from the closed days' DailySnapshot rows; in hll
+ * mode it also writes their merged sketch to RollingClosedDaysSketch once, so
+ * neither per-address rows nor a per-movement merge of the closed days are needed.
+ */
+export async function updateRollingWindows(context: HandlerContext, activity: RollingWindowActivity): Promise<void> {
+  const { chainId, token, decimals, value, totalSupply, daily } = activity;
+  const { dayId } = daily;
+  const hll = getUniqueAddressCounter() === "hll";
+  const lastActiveCounts = hll
+    ? undefined
+    : await updateLastActiveCounts(context, chainId, token, dayId, activity.firstActiveAddresses);
+
+  for (const window of ROLLING_WINDOWS) {
+    const id = `${chainId}-${token}-${dayId}-${window}`;
+    const current = await context.RollingWindowSnapshot.get(id);
+    let volume: bigint;
+    let transferCount: number;
+    let closedDaysSketch: string | undefined;
+    if (current) {
+      volume = current.volume + value;
+      transferCount = current.transferCount + 1;
+      if (hll) closedDaysSketch = (await context.RollingClosedDaysSketch.get(id))?.sketch;
+    } else {
+      const closed = await sumClosedDays(context, chainId, token, dayId, window - 1, hll);
+      volume = closed.volume + daily.dailyVolume;
+      transferCount = closed.transferCount + daily.dailyTransferCount;
+      closedDaysSketch = closed.sketch;
+      if (closedDaysSketch !== undefined) context.RollingClosedDaysSketch.set({ id, sketch: closedDaysSketch });
+    }
+
+    const uniqueActiveAddresses = lastActiveCounts
+      ? lastActiveCounts.slice(-window).reduce((sum, count) => sum + count, 0)
+      : estimateCardinality(
+          mergeSketches([closedDaysSketch ?? emptySketch(), daily.activeAddressSketch ?? emptySketch()]),
+        );
+
+    context.RollingWindowSnapshot.set({
+      id,
+      chainId,
+      token,
+      dayId,
+      window,
+      volume,
+      volumeNormalized: new BigDecimal(volume.toString()).shiftedBy(-decimals),
+      transferCount,
+      uniqueActiveAddresses,
+      endSupply: totalSupply,
+      velocity: computeVelocity(volume, totalSupply),
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { getAddress } from "viem";
+import type { AccountType } from "./types.js";
+
+// Minimal JSON-RPC client used by effects. Only the handful of read-only calls
+// the indexer needs, encoded by hand; viem is pinned to the version envio
+// already ships and only checksums addresses.
+
+// RPC endpoint per chain, e.g. RPC_URL_1=https://eth.llamarpc.com
+function getRpcUrl(chainId: number): string {
+  const url = process.env[`RPC_URL_${chainId}`];
+  if (!url) throw new Error(`Missing RPC_URL_${chainId} env var`);
+  return url;
+}
+
+export type BlockTag = number | "latest";
+
+function toBlockTag(block: BlockTag): string {
+  return block === "latest" ? block : `0x${block.toString(16)}`;
+}
+
+async function rpcRequest(chainId: number, method: string, params: unknown[]): Promise<string> {
+  const response = await fetch(getRpcUrl(chainId), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  if (!response.ok) {
+    throw new Error(`RPC ${method} on chain ${chainId} failed with HTTP ${response.status}`);
+  }
+  const body = (await response.json()) as { result?: string; error?: { message: string } };
+  if (body.error || body.result === undefined) {
+    throw new Error(`RPC ${method} on chain ${chainId} failed: ${body.error?.message ?? "empty result"}`);
+  }
+  return body.result;
+}
+
+export function ethCall(chainId: number, to: string, data: string, block: BlockTag = "latest"): Promise<string> {
+  return rpcRequest(chainId, "eth_call", [{ to, data }, toBlockTag(block)]);
+}
+
+export function getCode(chainId: number, address: string, block: BlockTag = "latest"): Promise<string> {
+  return rpcRequest(chainId, "eth_getCode", [address, toBlockTag(block)]);
+}
+
+// Function selectors (first 4 bytes of keccak256 of the signature)
+export const SELECTORS = {
+  name: "0x06fdde03",
+  symbol: "0x95d89b41",
+  decimals: "0x313ce567",
+  owner: "0x8da5cb5b",
+  totalSupply: "0x18160ddd",
+  balanceOf: "0x70a08231",
+} as const;
+
+/** ABI-encode a single `address` argument. */
+export function encodeAddress(address: string): string {
+  return address.slice(2).toLowerCase().padStart(64, "0");
+}
+
+export function decodeUint(hex: string): bigint {
+  return hex === "0x" ? 0n : BigInt(hex.slice(0, 66));
+}
+
+/** Decode an ABI-encoded `address`, checksummed to match event addresses. */
+export function decodeAddress(hex: string): string {
+  return getAddress(`0x${hex.slice(26, 66)}`);
+}
+
+/**
+ * Decode an ABI-encoded `string` return value. Falls back to a right-padded
+ * bytes32 (used by a few early tokens, e.g. MKR) when the payload is a single word.
+ */
+export function decodeString(hex: string): string {
+  const data = hex.slice(2);
+  if (data.length === 64) {
+    return Buffer.from(data, "hex").toString("utf8").replace(/\0+$/, "");
+  }
+  const offset = Number(BigInt(`0x${data.slice(0, 64)}`)) * 2;
+  const length = Number(BigInt(`0x${data.slice(offset, offset + 64)}`)) * 2;
+  return Buffer.from(data.slice(offset + 64, offset + 64 + length), "hex").toString("utf8");
+}
+
+// EIP-7702 delegation designator: 0xef0100 followed by the delegate address
+const DELEGATION_PREFIX = "0xef0100";
+// Start of the Safe proxy's runtime code (v1.1.1 onwards): load the singleton
+// from slot 0, then answer masterCopy() (0xa619486e) itself if the calldata
+// selector matches, before delegating everything else
+const SAFE_PROXY_PREFIX = `0x608060405273${"ff".repeat(20)}600054167fa619486e${"0".repeat(56)}60003514`;
+
+/** Classify an address by its `eth_getCode` result. */
+export function decodeAccountType(code: string): AccountType {
+  if (code === "0x") return "EOA";
+  const normalized = code.toLowerCase();
+  if (normalized.startsWith(DELEGATION_PREFIX) && normalized.length === 2 + 46) return "DELEGATED_EOA";
+  if (normalized.startsWith(SAFE_PROXY_PREFIX)) return "SAFE";
+  return "CONTRACT";
+}
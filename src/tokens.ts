@@ -0,0 +1,74 @@
+import type { EffectCaller } from "envio";
+import type { Token } from "generated";
+import { getTokenMetadata } from "./effects.js";
+import type { EntityStore } from "./types.js";
+
+type TokenMetadata = {
+  symbol: string;
+  name: string;
+  decimals: number;
+  issuer?: string;
+  pegCurrency?: string;
+  // Canonical asset the deployment rolls up into across chains (Asset entities)
+  asset?: string;
+};
+
+const USDC: TokenMetadata = { symbol: "USDC", name: "USD Coin", decimals: 6, issuer: "Circle", pegCurrency: "USD", asset: "USDC" };
+const USDT: TokenMetadata = { symbol: "USDT", name: "Tether USD", decimals: 6, issuer: "Tether", pegCurrency: "USD", asset: "USDT" };
+
+// Static registry keyed by `${chainId}-${lowercased address}`. Tokens missing here
+// are resolved on-chain through the getTokenMetadata effect at first sight, and
+// have no asset (they aren't rolled up across chains).
+const KNOWN_TOKENS: Record<string, TokenMetadata> = {
+  // Mainnet
+  "1-0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48": USDC,
+  "1-0xdac17f958d2ee523a2206206994597c13d831ec7": USDT,
+  "1-0x6b175474e89094c44da98b954eedeac495271d0f": { symbol: "DAI", name: "Dai Stablecoin", decimals: 18, issuer: "MakerDAO", pegCurrency: "USD", asset: "DAI" },
+  // BSC
+  "56-0x55d398326f99059ff775485246999027b3197955": { ...USDT, decimals: 18 },
+  // Unichain
+  "130-0x078d782b760474a361dda0af3839290b0ef57ad6": USDC,
+  "130-0x9151434b16b9763660705744891fa906f660ecc5": { ...USDT, symbol: "USDT0", name: "USDT0" },
+  // Arbitrum
+  "42161-0xaf88d065e77c8cc2239327c5edb3a432268e5831": USDC,
+};
+
+export function getTokenId(chainId: number, token: string): string {
+  return `${chainId}-${token}`;
+}
+
+export function getSupplyId(chainId: number, token: string): string {
+  return `${chainId}-${token}-supply`;
+}
+
+/**
+ * Load the Token entity, creating it at first sight from the static registry
+ * or, failing that, from an on-chain metadata read.
+ */
+export async function getOrCreateToken(
+  context: { Token: EntityStore<Token>; effect: EffectCaller },
+  chainId: number,
+  address: string,
+): Promise<Token> {
+  const id = getTokenId(chainId, address);
+  const existing = await context.Token.get(id);
+  if (existing) return existing;
+
+  const metadata: TokenMetadata =
+    KNOWN_TOKENS[`${chainId}-${address.toLowerCase()}`] ??
+    (await context.effect(getTokenMetadata, { chainId, address }));
+
+  const token: Token = {
+    id,
+    chainId,
+    address,
+    symbol: metadata.symbol,
+    name: metadata.name,
+    decimals: metadata.decimals,
+    issuer: metadata.issuer,
+    pegCurrency: metadata.pegCurrency,
+    asset: metadata.asset,
+  };
+  context.Token.set(token);
+  return token;
+}
@@ -0,0 +1,11 @@
+/** The slice of `context.<Entity>` that shared helpers need. */
+export type EntityStore<T> = {
+  get: (id: string) => Promise<T | undefined>;
+  set: (entity: T) => void;
+};
+
+/** An account balance before and after a movement. */
+export type BalanceChange = { address: string; oldBalance: bigint; newBalance: bigint };
+
+/** Account.accountType, from the address's code (ACCOUNT_TYPES). */
+export type AccountType = "EOA" | "DELEGATED_EOA" | "CONTRACT" | "SAFE";